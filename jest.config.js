@@ -3,6 +3,9 @@
  * https://jestjs.io/docs/configuration
  */
 
+// Dates are tested in a fixed time zone with daylight saving time, whatever the machine
+process.env.TZ = 'America/New_York';
+
 /** @type {import('jest').Config} */
 const config = {
   clearMocks: true,
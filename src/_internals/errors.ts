@@ -26,3 +26,13 @@ export class Exception extends Error {
 export class CanceledError extends Exception {
   public override readonly name = 'CanceledError' as const;
 }
+
+
+export class TimeoutError extends Exception {
+  public override readonly name = 'TimeoutError' as const;
+}
+
+
+export class ChannelClosedError extends Exception {
+  public override readonly name = 'ChannelClosedError' as const;
+}
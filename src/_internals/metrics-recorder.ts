@@ -0,0 +1,123 @@
+import SampleWindow from './sample-window';
+import type { JobState } from '../event-loop';
+import type { DurationSummary, MessageTypeMetrics, QueueMetrics } from '../metrics';
+
+
+// Throughput is measured over this window
+const THROUGHPUT_WINDOW = 60_000;
+
+// The message type under which jobs without one are counted
+const DEFAULT_TYPE = 'default';
+
+
+/**
+ * Records the measurements summarized by `EventLoop.getMetrics`.
+ */
+export class MetricsRecorder {
+  readonly #waitTime: SampleWindow = new SampleWindow();
+  readonly #processingTime: SampleWindow = new SampleWindow();
+  readonly #types: Map<string, { completed: number; failed: number }> = new Map();
+  readonly #recent: { at: number; failed: boolean }[] = [];
+
+  /**
+   * Records the time a job waited before its first attempt.
+   * @param {number} duration The duration in milliseconds.
+   */
+  public wait(duration: number): void {
+    this.#waitTime.push(Math.max(0, duration));
+  }
+
+  /**
+   * Records the time taken by an attempt.
+   * @param {number} duration The duration in milliseconds.
+   */
+  public processing(duration: number): void {
+    this.#processingTime.push(Math.max(0, duration));
+  }
+
+  /**
+   * Records a job that completed or failed for good.
+   * @param {string} [messageType] The message type of the job.
+   * @param {boolean} failed Whether the job failed.
+   */
+  public outcome(messageType: string | undefined, failed: boolean): void {
+    const type = messageType ?? DEFAULT_TYPE;
+
+    if(!this.#types.has(type)) {
+      this.#types.set(type, { completed: 0, failed: 0 });
+    }
+
+    this.#types.get(type)![failed ? 'failed' : 'completed']++;
+    this.#recent.push({ at: Date.now(), failed });
+
+    this.#prune(Date.now());
+  }
+
+  /**
+   * Builds a snapshot of the metrics.
+   * @param counts The number of known jobs in each state.
+   * @param running The number of running jobs.
+   * @param capacity The number of concurrency slots.
+   * @returns {QueueMetrics} The snapshot.
+   */
+  public snapshot(counts: Record<JobState, number>, running: number, capacity: number): QueueMetrics {
+    const now = Date.now();
+    this.#prune(now);
+
+    const byType: Record<string, MessageTypeMetrics> = {};
+    let completed = 0, failed = 0;
+
+    for(const [type, totals] of this.#types) {
+      const finished = totals.completed + totals.failed;
+
+      byType[type] = {
+        ...totals,
+        failureRate: finished > 0 ? totals.failed / finished : 0,
+      };
+
+      completed += totals.completed;
+      failed += totals.failed;
+    }
+
+    const recentFailures = this.#recent.filter(item => item.failed).length;
+
+    return {
+      timestamp: now,
+      counts,
+      totals: { completed, failed },
+      throughput: {
+        completed: this.#recent.length - recentFailures,
+        failed: recentFailures,
+      },
+      waitTime: this.#summarize(this.#waitTime),
+      processingTime: this.#summarize(this.#processingTime),
+      byType,
+      concurrency: {
+        running,
+        capacity,
+        utilisation: capacity > 0 ? Math.min(1, running / capacity) : 0,
+      },
+    };
+  }
+
+  #summarize(window: SampleWindow): DurationSummary {
+    const sorted = window.sorted();
+
+    return {
+      count: window.count,
+      sum: window.sum,
+      mean: window.count > 0 ? window.sum / window.count : 0,
+      p50: SampleWindow.percentile(sorted, 50),
+      p95: SampleWindow.percentile(sorted, 95),
+      p99: SampleWindow.percentile(sorted, 99),
+    };
+  }
+
+  #prune(now: number): void {
+    while(this.#recent.length > 0 && this.#recent[0].at <= now - THROUGHPUT_WINDOW) {
+      this.#recent.shift();
+    }
+  }
+}
+
+export default MetricsRecorder;
@@ -0,0 +1,155 @@
+type HeapNode<T> = {
+  readonly value: T;
+  readonly priority: number;
+  readonly sequence: number;
+}
+
+
+/**
+ * Binary-heap backed priority queue.
+ *
+ * Items with a higher priority are dequeued first and items
+ * sharing the same priority are dequeued in insertion order.
+ *
+ * @template T The type of elements stored in the queue.
+ */
+export class PriorityQueue<T> {
+  #heap: HeapNode<T>[] = [];
+  #sequence: number = 0;
+
+  /**
+   * Adds an item to the queue.
+   * @param {T} value The item to be added.
+   * @param {number} [priority=0] The priority of the item.
+   */
+  public push(value: T, priority: number = 0): void {
+    this.#heap.push({
+      value,
+      priority,
+      sequence: this.#sequence++,
+    });
+
+    this.#siftUp(this.#heap.length - 1);
+  }
+
+  /**
+   * Retrieves the item with the highest priority without removing it.
+   * @returns {T | null} The item or null if the queue is empty.
+   */
+  public peek(): T | null {
+    return this.#heap.length > 0 ? this.#heap[0].value : null;
+  }
+
+  /**
+   * Removes and returns the item with the highest priority.
+   * @returns {T | null} The removed item or null if the queue is empty.
+   */
+  public pop(): T | null {
+    if(this.#heap.length === 0) return null;
+    return this.#removeAt(0).value;
+  }
+
+  /**
+   * Removes the first item matching the predicate.
+   * @param predicate The function used to match the item.
+   * @returns {T | undefined} The removed item, if any.
+   */
+  public remove(predicate: (value: T) => boolean): T | undefined {
+    const index = this.#heap.findIndex(node => predicate(node.value));
+    if(index < 0) return undefined;
+
+    return this.#removeAt(index).value;
+  }
+
+  /**
+   * Returns the number of items in the queue.
+   * @returns {number} The number of items in the queue.
+   */
+  public size(): number {
+    return this.#heap.length;
+  }
+
+  /**
+   * Checks if the queue is empty.
+   * @returns {boolean} True if the queue is empty, false otherwise.
+   */
+  public isEmpty(): boolean {
+    return this.#heap.length === 0;
+  }
+
+  /**
+   * Clears all items from the queue.
+   */
+  public clear(): void {
+    this.#heap = [];
+  }
+
+  /**
+   * Returns an array of all items in the queue in dequeue order.
+   * @returns {T[]} An array of all items in the queue.
+   */
+  public toArray(): T[] {
+    return [...this.#heap].sort((a, b) => this.#compare(a, b)).map(node => node.value);
+  }
+
+  public [Symbol.iterator]() {
+    return this.toArray()[Symbol.iterator]();
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'PriorityQueue';
+  }
+
+  #removeAt(index: number): HeapNode<T> {
+    const removed = this.#heap[index];
+    const last = this.#heap.pop()!;
+
+    if(index < this.#heap.length) {
+      this.#heap[index] = last;
+      this.#siftDown(index);
+      this.#siftUp(index);
+    }
+
+    return removed;
+  }
+
+  #compare(a: HeapNode<T>, b: HeapNode<T>): number {
+    if(a.priority !== b.priority) return b.priority - a.priority;
+    return a.sequence - b.sequence;
+  }
+
+  #siftUp(index: number): void {
+    while(index > 0) {
+      const parent = (index - 1) >> 1;
+      if(this.#compare(this.#heap[index], this.#heap[parent]) >= 0) break;
+
+      [this.#heap[index], this.#heap[parent]] = [this.#heap[parent], this.#heap[index]];
+      index = parent;
+    }
+  }
+
+  #siftDown(index: number): void {
+    const length = this.#heap.length;
+
+    for(;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if(left < length && this.#compare(this.#heap[left], this.#heap[smallest]) < 0) {
+        smallest = left;
+      }
+
+      if(right < length && this.#compare(this.#heap[right], this.#heap[smallest]) < 0) {
+        smallest = right;
+      }
+
+      if(smallest === index) break;
+
+      [this.#heap[index], this.#heap[smallest]] = [this.#heap[smallest], this.#heap[index]];
+      index = smallest;
+    }
+  }
+}
+
+export default PriorityQueue;
@@ -0,0 +1,68 @@
+export type RateLimiterOptions = {
+  max: number;
+  duration: number;
+}
+
+
+/**
+ * Sliding-window rate limiter that can also be blocked for a while.
+ */
+export class RateLimiter {
+  readonly #options?: RateLimiterOptions;
+  #timestamps: number[] = [];
+  #blockedUntil: number = 0;
+
+  /**
+   * Constructs a new RateLimiter instance.
+   * @param {RateLimiterOptions} [options] The maximum number of acquisitions per duration (unlimited when omitted).
+   */
+  public constructor(options?: RateLimiterOptions) {
+    if(options && (!(options.max > 0) || !(options.duration > 0))) {
+      throw new RangeError('Rate limiter `max` and `duration` must be positive numbers');
+    }
+
+    this.#options = options;
+  }
+
+  /**
+   * Computes how long to wait before the next acquisition is allowed.
+   * @param {number} [now] The current timestamp.
+   * @returns {number} The delay in milliseconds, 0 if an acquisition is allowed right away.
+   */
+  public delay(now: number = Date.now()): number {
+    const blocked = Math.max(0, this.#blockedUntil - now);
+    if(!this.#options) return blocked;
+
+    this.#prune(now);
+
+    if(this.#timestamps.length < this.#options.max) return blocked;
+    return Math.max(blocked, this.#timestamps[0] + this.#options.duration - now);
+  }
+
+  /**
+   * Records an acquisition.
+   * @param {number} [now] The current timestamp.
+   */
+  public acquire(now: number = Date.now()): void {
+    if(!this.#options) return;
+    this.#timestamps.push(now);
+  }
+
+  /**
+   * Blocks every acquisition for a while.
+   * @param {number} duration The duration of the block in milliseconds.
+   */
+  public block(duration: number): void {
+    this.#blockedUntil = Math.max(this.#blockedUntil, Date.now() + duration);
+  }
+
+  #prune(now: number): void {
+    const threshold = now - this.#options!.duration;
+
+    while(this.#timestamps.length > 0 && this.#timestamps[0] <= threshold) {
+      this.#timestamps.shift();
+    }
+  }
+}
+
+export default RateLimiter;
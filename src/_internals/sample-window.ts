@@ -0,0 +1,71 @@
+/**
+ * Keeps the most recent samples of a measurement to summarize them.
+ */
+export class SampleWindow {
+  readonly #capacity: number;
+  readonly #samples: number[] = [];
+  #cursor: number = 0;
+  #count: number = 0;
+  #sum: number = 0;
+
+  /**
+   * Constructs a new SampleWindow instance.
+   * @param {number} [capacity=1024] The number of samples kept to compute the percentiles.
+   */
+  public constructor(capacity: number = 1024) {
+    this.#capacity = Math.max(1, capacity);
+  }
+
+  /**
+   * Records a sample.
+   * @param {number} value The value of the sample.
+   */
+  public push(value: number): void {
+    if(this.#samples.length < this.#capacity) {
+      this.#samples.push(value);
+    } else {
+      this.#samples[this.#cursor] = value;
+      this.#cursor = (this.#cursor + 1) % this.#capacity;
+    }
+
+    this.#count++;
+    this.#sum += value;
+  }
+
+  /**
+   * Gets the total number of recorded samples.
+   */
+  public get count(): number {
+    return this.#count;
+  }
+
+  /**
+   * Gets the sum of every recorded sample.
+   */
+  public get sum(): number {
+    return this.#sum;
+  }
+
+  /**
+   * Computes a percentile of the kept samples with the nearest-rank method.
+   * @param {number[]} sorted The kept samples in ascending order.
+   * @param {number} percentile The percentile, between 0 and 100.
+   * @returns {number} The value of the percentile, 0 if there is no sample.
+   */
+  public static percentile(sorted: readonly number[], percentile: number): number {
+    if(sorted.length === 0) return 0;
+
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+
+  /**
+   * Returns the kept samples in ascending order.
+   * @returns {number[]} The sorted samples.
+   */
+  public sorted(): number[] {
+    return [...this.#samples].sort((a, b) => a - b);
+  }
+}
+
+export default SampleWindow;
@@ -71,16 +71,9 @@ export class Stack<T> {
    * @returns {T | null} The item removed from the top of the stack or null if the stack is empty.
    */
   public pop(): T | null {
-    const item = (this.#items.length > 0 ?
+    return (this.#items.length > 0 ?
       this.#items.splice(this.#order === Order.FIFO ? 0 : this.#items.length - 1, 1)[0] :
       null);
-
-    if(item && item != null) {
-      const index = this.#items.indexOf(item);
-      this.#items.splice(index, 1);
-    }
-
-    return item;
   }
 
   /**
@@ -0,0 +1,77 @@
+import Deferred from '../deferred';
+import { TimeoutError } from './errors';
+import type { LockHandle, LockOptions } from '../lock';
+
+
+export type Waiter = {
+  readonly deferred: Deferred<LockHandle>;
+}
+
+
+/**
+ * Creates a handle calling `release` the first time it is released or disposed.
+ */
+export function createHandle(release: () => void): LockHandle {
+  let released = false;
+
+  const handle = () => {
+    if(released) return;
+
+    released = true;
+    release();
+  };
+
+  return {
+    release: handle,
+    dispose: handle,
+    [Symbol.dispose]: handle,
+  };
+}
+
+/**
+ * Queues a waiter that gives up when the signal is aborted or the timeout elapses.
+ *
+ * @param queue The queue of waiters.
+ * @param fields The fields of the waiter other than its deferred handle.
+ * @param options Options to give up waiting.
+ * @returns A promise that resolves with the handle once the waiter is granted.
+ */
+export function enqueue<W extends Waiter>(queue: W[], fields: Omit<W, 'deferred'>, options?: LockOptions): Promise<LockHandle> {
+  if(options?.signal?.aborted) {
+    return Promise.reject(options.signal.reason);
+  }
+
+  if(options?.timeout !== undefined && !(options.timeout >= 0)) {
+    return Promise.reject(new RangeError('Lock `timeout` must be a non-negative number'));
+  }
+
+  const waiter = { ...fields, deferred: new Deferred<LockHandle>() } as W;
+  queue.push(waiter);
+
+  const giveUp = (reason: unknown) => {
+    const index = queue.indexOf(waiter);
+    if(index < 0) return;
+
+    queue.splice(index, 1);
+    void waiter.deferred.reject(reason);
+  };
+
+  const signal = options?.signal;
+  const onAbort = () => giveUp(signal!.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timeout = options?.timeout;
+  const timer = timeout !== undefined ?
+    setTimeout(() => giveUp(new TimeoutError(`Timed out after ${timeout}ms waiting for the lock`, { timeout })), timeout) :
+    null;
+
+  waiter.deferred.onSettled(() => {
+    signal?.removeEventListener('abort', onAbort);
+
+    if(timer) {
+      clearTimeout(timer);
+    }
+  });
+
+  return waiter.deferred.promise;
+}
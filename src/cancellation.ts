@@ -0,0 +1,213 @@
+import Deferred from './deferred';
+import { CanceledError } from './_internals/errors';
+import IDisposable, { toDisposable } from './_internals/disposable';
+import { type CancelablePromise, asPromise, isThenable } from './core';
+
+
+/**
+ * A token signaling that an operation should be cancelled.
+ *
+ * Tokens are created by a `CancellationTokenSource` or from an `AbortSignal`, and are
+ * backed by an `AbortSignal` so they can be handed to any API accepting one.
+ */
+export class CancellationToken {
+
+  /**
+   * A token that is never cancelled.
+   */
+  public static readonly None: CancellationToken = new CancellationToken(new AbortController().signal);
+
+  /**
+   * Creates a token cancelled when the signal is aborted.
+   *
+   * @param signal The signal to observe.
+   * @returns A token sharing the state and the reason of the signal.
+   */
+  public static fromSignal(signal: AbortSignal): CancellationToken {
+    return new CancellationToken(signal);
+  }
+
+  readonly #signal: AbortSignal;
+
+  protected constructor(signal: AbortSignal) {
+    this.#signal = signal;
+  }
+
+  /**
+   * Checks if cancellation has been requested.
+   */
+  public get isCancellationRequested(): boolean {
+    return this.#signal.aborted;
+  }
+
+  /**
+   * The reason of the cancellation, if it has been requested.
+   */
+  public get reason(): unknown {
+    return this.#signal.aborted ? this.#signal.reason : undefined;
+  }
+
+  /**
+   * The `AbortSignal` aborted when cancellation is requested.
+   */
+  public get signal(): AbortSignal {
+    return this.#signal;
+  }
+
+  /**
+   * Registers a listener called once when cancellation is requested.
+   * The listener is called right away if cancellation has already been requested.
+   *
+   * @param listener The function to call with the reason of the cancellation.
+   * @returns A disposable removing the listener.
+   */
+  public onCancellationRequested(listener: (reason: unknown) => void): IDisposable {
+    if(this.#signal.aborted) {
+      listener(this.#signal.reason);
+      return toDisposable(() => void 0);
+    }
+
+    const handler = () => listener(this.#signal.reason);
+    this.#signal.addEventListener('abort', handler, { once: true });
+
+    return toDisposable(() => this.#signal.removeEventListener('abort', handler));
+  }
+
+  /**
+   * Throws the reason of the cancellation if it has been requested.
+   */
+  public throwIfCancellationRequested(): void {
+    if(this.#signal.aborted) {
+      throw this.#signal.reason;
+    }
+  }
+}
+
+
+/**
+ * Creates and controls a `CancellationToken`.
+ *
+ * A source linked to a parent token is cancelled along with its parent, while cancelling
+ * the source itself leaves the parent untouched.
+ */
+export class CancellationTokenSource implements IDisposable {
+  readonly #controller: AbortController = new AbortController();
+  readonly #token: CancellationToken = CancellationToken.fromSignal(this.#controller.signal);
+  #parentListener?: IDisposable;
+
+  /**
+   * Constructs a new CancellationTokenSource instance.
+   *
+   * @param parent A token whose cancellation also cancels this source.
+   */
+  public constructor(parent?: CancellationToken) {
+    this.#parentListener = parent?.onCancellationRequested(reason => this.#controller.abort(reason));
+  }
+
+  /**
+   * The token controlled by this source.
+   */
+  public get token(): CancellationToken {
+    return this.#token;
+  }
+
+  /**
+   * Requests the cancellation of the token.
+   * Does nothing if cancellation has already been requested.
+   *
+   * @param reason The reason for the cancellation.
+   */
+  public cancel(reason?: string): void {
+    if(this.#controller.signal.aborted) return;
+    this.#controller.abort(new CanceledError(reason ?? 'The operation was cancelled'));
+  }
+
+  /**
+   * Unlinks the source from its parent token.
+   *
+   * @param cancel Whether to cancel the token as well (default is false).
+   */
+  public dispose(cancel: boolean = false): void {
+    if(cancel) {
+      this.cancel();
+    }
+
+    this.#parentListener?.dispose();
+    this.#parentListener = undefined;
+  }
+}
+
+
+class CancelableTask<T> implements CancelablePromise<T> {
+  readonly #source: CancellationTokenSource;
+  readonly #promise: Promise<T>;
+
+  public constructor(callback: (token: CancellationToken) => T | Promise<T>, parent?: CancellationToken) {
+    const source = new CancellationTokenSource(parent);
+    const deferred = new Deferred<T>();
+
+    let result: T | Promise<T> | undefined;
+
+    // Nested cancelable work is cancelled along with this promise
+    const subscription = source.token.onCancellationRequested(reason => {
+      void deferred.reject(reason);
+
+      if(isThenable(result) && typeof (result as CancelablePromise<T>).cancel === 'function') {
+        (result as CancelablePromise<T>).cancel();
+      }
+    });
+
+    if(!source.token.isCancellationRequested) {
+      asPromise(() => (result = callback(source.token)))
+        .then(value => deferred.resolve(value), reason => deferred.reject(reason));
+    }
+
+    this.#source = source;
+    this.#promise = deferred.promise.finally(() => {
+      subscription.dispose();
+      source.dispose();
+    });
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'CancelablePromise';
+  }
+
+  public cancel(): void {
+    this.#source.cancel();
+  }
+
+  public then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null // eslint-disable-line comma-dangle
+  ): Promise<TResult1 | TResult2> {
+    return this.#promise.then(onfulfilled, onrejected);
+  }
+
+  public catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null): Promise<T | TResult> {
+    return this.#promise.catch(onrejected);
+  }
+
+  public finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.#promise.finally(onfinally);
+  }
+}
+
+
+/**
+ * Runs a callback with a cancellation token and returns a promise that can be cancelled.
+ *
+ * Cancelling the promise cancels the token given to the callback, so the work can stop early,
+ * and rejects the promise with a `CanceledError` right away. If the callback returns another
+ * cancelable promise, it is cancelled as well.
+ *
+ * @param callback The function performing the work.
+ * @param parent A token whose cancellation also cancels the promise.
+ * @returns A promise that resolves with the result of the callback, or rejects when cancelled.
+ */
+export function createCancelablePromise<T>(
+  callback: (token: CancellationToken) => T | Promise<T>,
+  parent?: CancellationToken // eslint-disable-line comma-dangle
+): CancelablePromise<T> {
+  return new CancelableTask(callback, parent);
+}
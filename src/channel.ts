@@ -0,0 +1,420 @@
+import Deferred from './deferred';
+import { CancellationToken } from './cancellation';
+import { ChannelClosedError, TimeoutError } from './_internals/errors';
+
+export { ChannelClosedError } from './_internals/errors';
+
+
+/**
+ * The outcome of a receive operation: `ok` is false once the channel is closed and drained.
+ */
+export type ReceiveResult<T> =
+  | { value: T, ok: true }
+  | { value: undefined, ok: false };
+
+export type ChannelOperationOptions = {
+
+  /**
+   * Aborting the signal gives up waiting, rejecting with the reason of the signal.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A case of `select`: receiving from a channel, or sending a value to it.
+ */
+export type SelectCase<T = any> =
+  | { receive: Channel<T> }
+  | { send: Channel<T>, value: T };
+
+export type SelectOptions = ChannelOperationOptions & {
+
+  /**
+   * Rejects with a `TimeoutError` if no case is ready after this many milliseconds.
+   */
+  timeout?: number;
+
+  /**
+   * Resolves with the index -1 right away if no case is ready, instead of waiting.
+   */
+  default?: boolean;
+}
+
+export type SelectResult<T = any> = {
+
+  /**
+   * The index of the case that was performed, or -1 for the default case.
+   */
+  index: number;
+
+  /**
+   * The value received, for a receive case.
+   */
+  value?: T;
+
+  /**
+   * Whether a value was received, for a receive case; false if the channel was closed.
+   */
+  ok?: boolean;
+}
+
+type Receiver<T> = {
+
+  /**
+   * Hands the result to the receiver. Returns false if the receiver is no longer waiting.
+   */
+  readonly accept: (result: ReceiveResult<T>) => boolean;
+}
+
+type Sender<T> = {
+  readonly value: T;
+
+  /**
+   * Completes the send. Returns false if the sender is no longer waiting.
+   */
+  readonly accept: () => boolean;
+  readonly fail: (reason: unknown) => void;
+}
+
+
+function remove<W>(queue: W[], waiter: W): void {
+  const index = queue.indexOf(waiter);
+
+  if(index > -1) {
+    queue.splice(index, 1);
+  }
+}
+
+
+/**
+ * A typed channel to pass values between asynchronous tasks.
+ *
+ * An unbuffered channel (capacity 0) hands every value from a sender directly to a receiver,
+ * while a buffered channel lets senders go ahead until its buffer is full. Closing a channel
+ * rejects the waiting senders; receivers drain the buffered values and then see the end.
+ */
+export class Channel<T> implements AsyncIterable<T> {
+
+  /**
+   * Waits until one of the cases can be performed and performs it.
+   * When several cases are ready, the first one in order is performed.
+   *
+   * @param cases The receive and send cases.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the index of the performed case and the value received.
+   */
+  public static select<T = any>(cases: readonly SelectCase<T>[], options?: SelectOptions): Promise<SelectResult<T>> {
+    if(options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+
+    if(options?.timeout !== undefined && !(options.timeout >= 0)) {
+      return Promise.reject(new RangeError('Select `timeout` must be a non-negative number'));
+    }
+
+    for(let index = 0; index < cases.length; index++) {
+      const item = cases[index];
+
+      if('receive' in item) {
+        const result = item.receive.tryReceive();
+        if(result) return Promise.resolve({ index, ...result });
+
+        continue;
+      }
+
+      try {
+        if(item.send.trySend(item.value)) return Promise.resolve({ index });
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    if(options?.default) return Promise.resolve({ index: -1 });
+
+    const deferred = new Deferred<SelectResult<T>>({
+      token: options?.signal ? CancellationToken.fromSignal(options.signal) : undefined,
+    });
+
+    const cleanup: (() => void)[] = [];
+
+    // Every case waits on its channel, and the first one to be accepted settles the select
+    cases.forEach((item, index) => {
+      if('receive' in item) {
+        const channel = item.receive;
+
+        const receiver: Receiver<T> = {
+          accept: result => {
+            if(deferred.isSettled) return false;
+
+            void deferred.resolve({ index, ...result });
+            return true;
+          },
+        };
+
+        channel.#receivers.push(receiver);
+        cleanup.push(() => remove(channel.#receivers, receiver));
+
+        return;
+      }
+
+      const channel = item.send;
+
+      const sender: Sender<T> = {
+        value: item.value,
+        accept: () => {
+          if(deferred.isSettled) return false;
+
+          void deferred.resolve({ index });
+          return true;
+        },
+        fail: reason => void deferred.reject(reason),
+      };
+
+      channel.#senders.push(sender);
+      cleanup.push(() => remove(channel.#senders, sender));
+    });
+
+    const timeout = options?.timeout;
+
+    if(timeout !== undefined) {
+      const timer = setTimeout(() => {
+        void deferred.reject(new TimeoutError(`Select timed out after ${timeout}ms`, { timeout }));
+      }, timeout);
+
+      cleanup.push(() => clearTimeout(timer));
+    }
+
+    deferred.onSettled(() => {
+      for(const fn of cleanup) {
+        fn();
+      }
+    });
+
+    return deferred.promise;
+  }
+
+  readonly #capacity: number;
+  readonly #buffer: T[] = [];
+  readonly #receivers: Receiver<T>[] = [];
+  readonly #senders: Sender<T>[] = [];
+  #closed: boolean = false;
+
+  /**
+   * Constructs a new Channel instance.
+   *
+   * @param capacity The number of values buffered before senders wait (default is 0, unbuffered).
+   * @throws {RangeError} If the capacity is not a non-negative integer.
+   */
+  public constructor(capacity: number = 0) {
+    if(!Number.isInteger(capacity) || capacity < 0) {
+      throw new RangeError('Channel capacity must be a non-negative integer');
+    }
+
+    this.#capacity = capacity;
+  }
+
+  /**
+   * Gets the number of values the channel buffers.
+   */
+  public get capacity(): number {
+    return this.#capacity;
+  }
+
+  /**
+   * Gets the number of values waiting in the buffer.
+   */
+  public get length(): number {
+    return this.#buffer.length;
+  }
+
+  /**
+   * Checks if the channel has been closed.
+   */
+  public get isClosed(): boolean {
+    return this.#closed;
+  }
+
+  /**
+   * Sends a value, waiting for a receiver or for room in the buffer.
+   *
+   * @param value The value to send.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves once the value has been received or buffered.
+   * @throws {ChannelClosedError} If the channel is closed, or is closed while waiting.
+   */
+  public send(value: T, options?: ChannelOperationOptions): Promise<void> {
+    if(options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+
+    try {
+      if(this.trySend(value)) return Promise.resolve();
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    const deferred = new Deferred<void>({
+      token: options?.signal ? CancellationToken.fromSignal(options.signal) : undefined,
+    });
+
+    const sender: Sender<T> = {
+      value,
+      accept: () => {
+        if(deferred.isSettled) return false;
+
+        void deferred.resolve();
+        return true;
+      },
+      fail: reason => void deferred.reject(reason),
+    };
+
+    this.#senders.push(sender);
+    deferred.onSettled(() => remove(this.#senders, sender));
+
+    return deferred.promise;
+  }
+
+  /**
+   * Sends a value if a receiver is waiting or the buffer has room.
+   *
+   * @param value The value to send.
+   * @returns True if the value was sent, false if sending would have to wait.
+   * @throws {ChannelClosedError} If the channel is closed.
+   */
+  public trySend(value: T): boolean {
+    if(this.#closed) {
+      throw new ChannelClosedError('Cannot send on a closed channel');
+    }
+
+    while(this.#receivers.length > 0) {
+      if(this.#receivers.shift()!.accept({ value, ok: true })) return true;
+    }
+
+    if(this.#buffer.length < this.#capacity) {
+      this.#buffer.push(value);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Receives a value, waiting for a sender if the channel is empty.
+   *
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the value received.
+   * @throws {ChannelClosedError} If the channel is closed and drained.
+   */
+  public async receive(options?: ChannelOperationOptions): Promise<T> {
+    const result = await this.#receive(options);
+
+    if(!result.ok) {
+      throw new ChannelClosedError('Cannot receive from a closed channel');
+    }
+
+    return result.value;
+  }
+
+  /**
+   * Receives a value if one is available.
+   *
+   * @returns The result of the receive, or null if receiving would have to wait.
+   */
+  public tryReceive(): ReceiveResult<T> | null {
+    if(this.#buffer.length > 0) {
+      const value = this.#buffer.shift()!;
+      this.#refill();
+
+      return { value, ok: true };
+    }
+
+    while(this.#senders.length > 0) {
+      const sender = this.#senders.shift()!;
+      if(sender.accept()) return { value: sender.value, ok: true };
+    }
+
+    return this.#closed ? { value: undefined, ok: false } : null;
+  }
+
+  /**
+   * Closes the channel. The buffered values can still be received, and the waiting
+   * senders are rejected with a `ChannelClosedError`. Closing a channel again does nothing.
+   */
+  public close(): void {
+    if(this.#closed) return;
+    this.#closed = true;
+
+    for(const sender of this.#senders.splice(0)) {
+      sender.fail(new ChannelClosedError('Channel was closed while sending'));
+    }
+
+    // Receivers only wait on an empty buffer, so they are done
+    for(const receiver of this.#receivers.splice(0)) {
+      receiver.accept({ value: undefined, ok: false });
+    }
+  }
+
+  /**
+   * Iterates over the values received until the channel is closed and drained.
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while(true) {
+      const result = await this.#receive();
+      if(!result.ok) return;
+
+      yield result.value;
+    }
+  }
+
+  #receive(options?: ChannelOperationOptions): Promise<ReceiveResult<T>> {
+    if(options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+
+    const ready = this.tryReceive();
+    if(ready) return Promise.resolve(ready);
+
+    const deferred = new Deferred<ReceiveResult<T>>({
+      token: options?.signal ? CancellationToken.fromSignal(options.signal) : undefined,
+    });
+
+    const receiver: Receiver<T> = {
+      accept: result => {
+        if(deferred.isSettled) return false;
+
+        void deferred.resolve(result);
+        return true;
+      },
+    };
+
+    this.#receivers.push(receiver);
+    deferred.onSettled(() => remove(this.#receivers, receiver));
+
+    return deferred.promise;
+  }
+
+  #refill(): void {
+    while(this.#buffer.length < this.#capacity && this.#senders.length > 0) {
+      const sender = this.#senders.shift()!;
+
+      if(sender.accept()) {
+        this.#buffer.push(sender.value);
+      }
+    }
+  }
+}
+
+
+/**
+ * Waits until one of the cases can be performed and performs it.
+ * When several cases are ready, the first one in order is performed.
+ *
+ * @param cases The receive and send cases.
+ * @param options Options to give up waiting.
+ * @returns A promise that resolves with the index of the performed case and the value received.
+ */
+export function select<T = any>(cases: readonly SelectCase<T>[], options?: SelectOptions): Promise<SelectResult<T>> {
+  return Channel.select(cases, options);
+}
+
+export default Channel;
@@ -0,0 +1,165 @@
+import { CronExpression } from './cron';
+
+
+function occurrences(expression: string, from: string, count: number, utcOffset: number | string = 0): string[] {
+  const cron = CronExpression.parse(expression, { utcOffset });
+  const dates: string[] = [];
+
+  let date: Date | null = new Date(from);
+
+  while(dates.length < count) {
+    date = cron.next(date);
+    if(!date) break;
+
+    dates.push(date.toISOString());
+  }
+
+  return dates;
+}
+
+
+describe('CronExpression', () => {
+  test('should fill the seconds field of 5-field expressions with 0', () => {
+    expect(occurrences('* * * * *', '2026-01-01T00:00:30Z', 2)).toEqual([
+      '2026-01-01T00:01:00.000Z',
+      '2026-01-01T00:02:00.000Z',
+    ]);
+  });
+
+  test('should support a leading seconds field', () => {
+    expect(occurrences('*/20 * * * * *', '2026-01-01T00:00:00Z', 3)).toEqual([
+      '2026-01-01T00:00:20.000Z',
+      '2026-01-01T00:00:40.000Z',
+      '2026-01-01T00:01:00.000Z',
+    ]);
+  });
+
+  test('should search after `from`, never at it', () => {
+    expect(occurrences('0 * * * *', '2026-01-01T01:00:00Z', 1)).toEqual(['2026-01-01T02:00:00.000Z']);
+  });
+
+  test('should support steps', () => {
+    expect(occurrences('*/15 * * * *', '2026-01-01T00:07:00Z', 3)).toEqual([
+      '2026-01-01T00:15:00.000Z',
+      '2026-01-01T00:30:00.000Z',
+      '2026-01-01T00:45:00.000Z',
+    ]);
+
+    // A step after a single value runs up to the end of the field
+    expect(occurrences('50/5 * * * *', '2026-01-01T00:00:00Z', 3)).toEqual([
+      '2026-01-01T00:50:00.000Z',
+      '2026-01-01T00:55:00.000Z',
+      '2026-01-01T01:50:00.000Z',
+    ]);
+  });
+
+  test('should support ranges, stepped ranges and lists', () => {
+    expect(occurrences('0 9-17/4 * * *', '2026-01-01T00:00:00Z', 4)).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-01T13:00:00.000Z',
+      '2026-01-01T17:00:00.000Z',
+      '2026-01-02T09:00:00.000Z',
+    ]);
+
+    expect(occurrences('0 0 1,15 * *', '2026-01-01T00:00:00Z', 3)).toEqual([
+      '2026-01-15T00:00:00.000Z',
+      '2026-02-01T00:00:00.000Z',
+      '2026-02-15T00:00:00.000Z',
+    ]);
+  });
+
+  test('should support month and weekday names, case-insensitively', () => {
+    // 2026-01-01 is a Thursday
+    expect(occurrences('0 12 * JAN,jul Mon-Wed', '2026-01-01T00:00:00Z', 3)).toEqual([
+      '2026-01-05T12:00:00.000Z',
+      '2026-01-06T12:00:00.000Z',
+      '2026-01-07T12:00:00.000Z',
+    ]);
+
+    expect(occurrences('0 0 1 jul *', '2026-01-01T00:00:00Z', 1)).toEqual(['2026-07-01T00:00:00.000Z']);
+  });
+
+  test('should treat 7 as Sunday', () => {
+    expect(occurrences('0 0 * * 7', '2026-01-01T00:00:00Z', 1)).toEqual(['2026-01-04T00:00:00.000Z']);
+  });
+
+  test('should support macros', () => {
+    expect(occurrences('@daily', '2026-01-01T10:00:00Z', 1)).toEqual(['2026-01-02T00:00:00.000Z']);
+    expect(occurrences('@hourly', '2026-01-01T10:30:00Z', 1)).toEqual(['2026-01-01T11:00:00.000Z']);
+    expect(occurrences('@yearly', '2026-01-01T10:00:00Z', 1)).toEqual(['2027-01-01T00:00:00.000Z']);
+  });
+
+  test('should match either day field when both are restricted', () => {
+    expect(occurrences('0 0 13 * fri', '2026-01-01T00:00:00Z', 4)).toEqual([
+      '2026-01-02T00:00:00.000Z',
+      '2026-01-09T00:00:00.000Z',
+      '2026-01-13T00:00:00.000Z',
+      '2026-01-16T00:00:00.000Z',
+    ]);
+  });
+
+  test('should match both day fields when only one is restricted', () => {
+    expect(occurrences('0 0 13 * *', '2026-01-01T00:00:00Z', 2)).toEqual([
+      '2026-01-13T00:00:00.000Z',
+      '2026-02-13T00:00:00.000Z',
+    ]);
+
+    expect(occurrences('0 0 * * fri', '2026-01-01T00:00:00Z', 2)).toEqual([
+      '2026-01-02T00:00:00.000Z',
+      '2026-01-09T00:00:00.000Z',
+    ]);
+  });
+
+  test('should return null for an expression that never matches', () => {
+    expect(CronExpression.parse('0 0 30 2 *', { utcOffset: 0 }).next(new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  test('should evaluate the expression with a UTC offset', () => {
+    expect(occurrences('0 9 * * *', '2026-01-01T00:00:00Z', 1, '-03:00')).toEqual(['2026-01-01T12:00:00.000Z']);
+    expect(occurrences('0 9 * * *', '2026-01-01T00:00:00Z', 1, 330)).toEqual(['2026-01-01T03:30:00.000Z']);
+  });
+
+  test.each([
+    ['* * * *'],
+    ['* * * * * * *'],
+    ['60 * * * *'],
+    ['* 24 * * *'],
+    ['* * 0 * *'],
+    ['* * * 13 *'],
+    ['* * * * 8'],
+    ['1-2-3 * * * *'],
+    ['5-1 * * * *'],
+    ['*/0 * * * *'],
+    ['*/2/3 * * * *'],
+    ['foo * * * *'],
+    ['* * * * funday'],
+  ])('should reject the invalid expression \'%s\'', expression => {
+    expect(() => CronExpression.parse(expression)).toThrow();
+  });
+
+  test('should reject an invalid UTC offset', () => {
+    expect(() => CronExpression.parse('* * * * *', { utcOffset: 'noon' })).toThrow();
+  });
+
+  // The local time zone is set to America/New_York by the Jest config
+  describe('with the local time zone', () => {
+    test('should follow the clocks moving forward', () => {
+      // 2026-03-07 10:00 EST, the day before daylight saving time starts
+      expect(CronExpression.parse('0 9 * * *').next(new Date('2026-03-07T15:00:00Z'))?.toISOString())
+        .toBe('2026-03-08T13:00:00.000Z');
+    });
+
+    test('should follow the clocks moving back', () => {
+      // 2026-10-31 10:00 EDT, the day before daylight saving time ends
+      expect(CronExpression.parse('0 9 * * *').next(new Date('2026-10-31T14:00:00Z'))?.toISOString())
+        .toBe('2026-11-01T14:00:00.000Z');
+    });
+
+    test('should skip the times that do not exist locally', () => {
+      const cron = CronExpression.parse('30 2 * * *');
+
+      // 02:30 does not exist on 2026-03-08, when the clocks move from 02:00 EST to 03:00 EDT
+      expect(cron.next(new Date('2026-03-07T12:00:00Z'))?.toISOString()).toBe('2026-03-09T06:30:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { Exception } from './_internals/errors';
+
+
+export type CronOptions = {
+
+  /**
+   * The UTC offset used to evaluate the expression, either in minutes (e.g. `-180`)
+   * or as a string (e.g. `'-03:00'`). The local time zone, with its daylight saving time, is used when omitted.
+   */
+  utcOffset?: number | string;
+}
+
+
+type FieldSpec = {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+  readonly aliases?: readonly string[];
+}
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+
+const MONTH: FieldSpec = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  aliases: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+};
+
+const DAY_OF_WEEK: FieldSpec = {
+  name: 'day of week',
+  min: 0,
+  max: 7,
+  aliases: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+};
+
+const MACROS: Readonly<Record<string, string>> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Stop searching after this many years without a match (e.g. `0 0 30 2 *`)
+const MAX_YEARS_AHEAD = 8;
+
+
+function parseValue(value: string, spec: FieldSpec, expression: string): number {
+  const alias = spec.aliases?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed = alias > -1 ? alias + (spec === MONTH ? 1 : 0) : Number(value);
+
+  if(!/^\d+$/.test(value) && alias < 0) {
+    throw new Exception(`Invalid ${spec.name} '${value}' in cron expression '${expression}'`);
+  }
+
+  if(parsed < spec.min || parsed > spec.max) {
+    throw new Exception(`The ${spec.name} '${value}' is out of range (${spec.min}-${spec.max}) in cron expression '${expression}'`);
+  }
+
+  return parsed;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for(const part of field.split(',')) {
+    const [range, stepValue] = part.split('/');
+    const step = typeof stepValue === 'string' ? Number(stepValue) : 1;
+
+    if(!Number.isInteger(step) || step < 1 || part.split('/').length > 2) {
+      throw new Exception(`Invalid step in '${part}' of cron expression '${expression}'`);
+    }
+
+    let start: number, end: number;
+
+    if(range === '*' || range === '?') {
+      [start, end] = [spec.min, spec.max];
+    } else if(range.includes('-')) {
+      const bounds = range.split('-');
+
+      if(bounds.length !== 2) {
+        throw new Exception(`Invalid range '${range}' in cron expression '${expression}'`);
+      }
+
+      const [from, to] = bounds;
+
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+
+      if(start > end) {
+        throw new Exception(`Invalid range '${range}' in cron expression '${expression}'`);
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      end = typeof stepValue === 'string' ? spec.max : start;
+    }
+
+    for(let i = start; i <= end; i += step) {
+      values.add(spec === DAY_OF_WEEK && i === 7 ? 0 : i);
+    }
+  }
+
+  return values;
+}
+
+function parseOffset(offset: number | string): number {
+  if(typeof offset === 'number') return offset;
+
+  const match = /^([+-])?(\d{1,2}):?(\d{2})?$/.exec(offset.trim());
+
+  if(!match) {
+    throw new Exception(`Invalid UTC offset '${offset}'`);
+  }
+
+  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+
+/**
+ * Represents a parsed cron expression.
+ *
+ * Supports the standard 5-field format (minute, hour, day of month, month, day of week),
+ * the 6-field format with a leading seconds field, lists, ranges, steps, month
+ * and weekday names and the `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` macros.
+ */
+export class CronExpression {
+
+  /**
+   * Parses a cron expression.
+   *
+   * @param expression The cron expression.
+   * @param options Additional options for evaluating the expression.
+   * @returns The parsed expression.
+   * @throws {Exception} If the expression is invalid.
+   */
+  public static parse(expression: string, options?: CronOptions): CronExpression {
+    return new CronExpression(expression, options);
+  }
+
+  readonly #seconds: Set<number>;
+  readonly #minutes: Set<number>;
+  readonly #hours: Set<number>;
+  readonly #daysOfMonth: Set<number>;
+  readonly #months: Set<number>;
+  readonly #daysOfWeek: Set<number>;
+  readonly #restrictedDays: { month: boolean; week: boolean };
+  readonly #utcOffset?: number;
+
+  /**
+   * The original cron expression.
+   */
+  public readonly source: string;
+
+  /**
+   * Creates a new cron expression.
+   *
+   * @param expression The cron expression.
+   * @param options Additional options for evaluating the expression.
+   * @throws {Exception} If the expression is invalid.
+   */
+  public constructor(expression: string, options?: CronOptions) {
+    this.source = expression;
+
+    const trimmed = expression.trim();
+    const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+    if(fields.length === 5) {
+      fields.unshift('0');
+    }
+
+    if(fields.length !== 6) {
+      throw new Exception(`Cron expression '${expression}' must have 5 or 6 fields`);
+    }
+
+    this.#seconds = parseField(fields[0], SECOND, expression);
+    this.#minutes = parseField(fields[1], MINUTE, expression);
+    this.#hours = parseField(fields[2], HOUR, expression);
+    this.#daysOfMonth = parseField(fields[3], DAY_OF_MONTH, expression);
+    this.#months = parseField(fields[4], MONTH, expression);
+    this.#daysOfWeek = parseField(fields[5], DAY_OF_WEEK, expression);
+
+    this.#restrictedDays = {
+      month: !['*', '?'].includes(fields[3]),
+      week: !['*', '?'].includes(fields[5]),
+    };
+
+    if(typeof options?.utcOffset !== 'undefined') {
+      this.#utcOffset = parseOffset(options.utcOffset);
+    }
+  }
+
+  /**
+   * Computes the next date matching the expression.
+   *
+   * @param from The date after which to search (default is now).
+   * @returns The next matching date, or null if the expression never matches.
+   */
+  public next(from: Date | number = Date.now()): Date | null {
+    const timestamp = typeof from === 'number' ? from : from.getTime();
+    const offsetAt = (time: number) => (this.#utcOffset ?? -new Date(time).getTimezoneOffset()) * 60_000;
+    const offset = offsetAt(timestamp);
+
+    // Fields are evaluated with the UTC getters of a date shifted by the offset
+    const date = new Date(Math.floor((timestamp + offset) / 1000) * 1000 + 1000);
+    const limit = date.getUTCFullYear() + MAX_YEARS_AHEAD;
+
+    while(date.getUTCFullYear() <= limit) {
+      if(!this.#months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if(!this.#matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if(!this.#hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if(!this.#minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      if(!this.#seconds.has(date.getUTCSeconds())) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+        continue;
+      }
+
+      // The local offset may have changed since `from` (e.g. daylight saving time)
+      const shifted = date.getTime();
+      let time = shifted - offsetAt(shifted - offset);
+
+      if(time + offsetAt(time) !== shifted) {
+        time = shifted - offsetAt(time);
+      }
+
+      // Skip the times that do not exist locally, when the clocks are moved forward
+      if(time + offsetAt(time) !== shifted || time <= timestamp) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+        continue;
+      }
+
+      return new Date(time);
+    }
+
+    return null;
+  }
+
+  #matchesDay(date: Date): boolean {
+    const dayOfMonth = this.#daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.#daysOfWeek.has(date.getUTCDay());
+
+    // When both day fields are restricted, matching either of them is enough
+    if(this.#restrictedDays.month && this.#restrictedDays.week) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+  }
+
+  public toString(): string {
+    return this.source;
+  }
+}
+
+export default CronExpression;
@@ -1,4 +1,8 @@
-import { CanceledError } from './_internals/errors';
+import { CanceledError, TimeoutError } from './_internals/errors';
+import IDisposable, { toDisposable } from './_internals/disposable';
+import type { CancellationToken } from './cancellation';
+
+export { TimeoutError } from './_internals/errors';
 
 
 /**
@@ -6,6 +10,22 @@ import { CanceledError } from './_internals/errors';
  */
 export type ValueCallback<T = unknown> = (value: T | Promise<T>) => void;
 
+/**
+ * Options for a Deferred instance.
+ */
+export type DeferredOptions = {
+
+  /**
+   * A token whose cancellation rejects the promise with the reason of the cancellation.
+   */
+  token?: CancellationToken;
+
+  /**
+   * Rejects the promise with a `TimeoutError` if it has not settled after this many milliseconds.
+   */
+  timeout?: number;
+}
+
 /**
  * Enumeration of possible outcomes for a deferred promise.
  */
@@ -18,11 +38,16 @@ const enum DeferredOutcome {
 /**
  * Represents a promise whose resolution can be controlled externally.
  * Allows resolving, rejecting, and canceling the promise.
+ *
+ * A deferred settles only once: resolving or rejecting it again is ignored.
  */
-export class Deferred<T, E = unknown> {
+export class Deferred<T, E = unknown, P = unknown> {
   private _onfulfilled: ValueCallback<T>;
   private _onrejected: (reason?: E) => void;
   private _outcome?: { outcome: DeferredOutcome.Resolved, value: T } | { outcome: DeferredOutcome.Rejected, reason?: E };
+  private readonly _progressListeners: Set<(value: P) => void> = new Set();
+  private readonly _settleListeners: Set<(result: PromiseSettledResult<T>) => void> = new Set();
+  private readonly _disposables: IDisposable[] = [];
 
   /**
    * The promise associated with this Deferred instance.
@@ -31,11 +56,34 @@ export class Deferred<T, E = unknown> {
 
   /**
    * Constructs a new Deferred instance.
+   *
+   * @param options Additional options for the deferred promise.
+   * @throws {RangeError} If the timeout is not a positive number.
    */
-  public constructor() {
+  public constructor(options?: DeferredOptions) {
     this.promise = new Promise((resolve, reject) => {
       [this._onfulfilled, this._onrejected] = [resolve, reject];
     });
+
+    if(options?.timeout !== undefined) {
+      if(!(options.timeout > 0)) {
+        throw new RangeError('Deferred `timeout` must be a positive number');
+      }
+
+      const timeout = options.timeout;
+
+      const timer = setTimeout(() => {
+        this.reject(new TimeoutError(`Deferred timed out after ${timeout}ms`, { timeout }) as unknown as E);
+      }, timeout);
+
+      this._disposables.push(toDisposable(() => clearTimeout(timer)));
+    }
+
+    if(options?.token) {
+      this._disposables.push(options.token.onCancellationRequested(reason => {
+        this.reject(reason as E);
+      }));
+    }
   }
 
   /**
@@ -52,6 +100,13 @@ export class Deferred<T, E = unknown> {
     return this._outcome?.outcome === DeferredOutcome.Resolved;
   }
 
+  /**
+   * Checks if the promise has been either resolved or rejected.
+   */
+  public get isSettled() {
+    return !!this._outcome;
+  }
+
   /**
    * Retrieves the resolved value of the promise, if available.
    */
@@ -60,20 +115,33 @@ export class Deferred<T, E = unknown> {
     return undefined;
   }
 
+  /**
+   * Retrieves the reason the promise was rejected with, if available.
+   */
+  public get reason(): E | undefined {
+    if(this._outcome?.outcome === DeferredOutcome.Rejected) return this._outcome.reason;
+    return undefined;
+  }
+
   /**
    * Resolves the promise with the provided value.
-   * 
+   * Does nothing if the promise has already settled.
+   *
    * @param value The value to resolve the promise with.
    * @returns A promise that resolves once the current promise is resolved.
    */
   public resolve(value: T): Promise<void> {
     return new Promise<void>(resolve => {
-      this._onfulfilled(value);
+      if(!this._outcome) {
+        this._onfulfilled(value);
+
+        this._outcome = {
+          outcome: DeferredOutcome.Resolved,
+          value,
+        } as const;
 
-      this._outcome = {
-        outcome: DeferredOutcome.Resolved,
-        value,
-      } as const;
+        this._settle({ status: 'fulfilled', value });
+      }
 
       resolve();
     });
@@ -81,18 +149,23 @@ export class Deferred<T, E = unknown> {
 
   /**
    * Rejects the promise with the provided reason.
-   * 
+   * Does nothing if the promise has already settled.
+   *
    * @param reason The reason for rejecting the promise.
    * @returns A promise that resolves once the current promise is rejected.
    */
   public reject(reason?: E): Promise<void> {
     return new Promise<void>(resolve => {
-      this._onrejected(reason);
+      if(!this._outcome) {
+        this._onrejected(reason);
+
+        this._outcome = {
+          outcome: DeferredOutcome.Rejected,
+          reason,
+        } as const;
 
-      this._outcome = {
-        outcome: DeferredOutcome.Rejected,
-        reason,
-      } as const;
+        this._settle({ status: 'rejected', reason });
+      }
 
       resolve();
     });
@@ -100,12 +173,74 @@ export class Deferred<T, E = unknown> {
 
   /**
    * Cancels the promise by rejecting it with a CanceledError.
-   * 
+   *
    * @param reason The reason for canceling the promise.
    */
   public cancel(reason?: string): void {
     this.reject(new CanceledError(reason) as unknown as any);
   }
+
+  /**
+   * Reports intermediate progress to the progress listeners.
+   * Does nothing if the promise has already settled.
+   *
+   * @param value The progress value.
+   */
+  public progress(value: P): void {
+    if(this._outcome) return;
+
+    for(const listener of [...this._progressListeners]) {
+      listener(value);
+    }
+  }
+
+  /**
+   * Registers a listener called with every progress value reported before the promise settles.
+   *
+   * @param listener The function to call with the progress value.
+   * @returns A disposable removing the listener.
+   */
+  public onProgress(listener: (value: P) => void): IDisposable {
+    if(this._outcome) return toDisposable(() => void 0);
+
+    this._progressListeners.add(listener);
+    return toDisposable(() => this._progressListeners.delete(listener));
+  }
+
+  /**
+   * Registers a listener called synchronously once the promise settles.
+   * The listener is called right away if the promise has already settled.
+   *
+   * @param listener The function to call with the outcome of the promise.
+   * @returns A disposable removing the listener.
+   */
+  public onSettled(listener: (result: PromiseSettledResult<T>) => void): IDisposable {
+    if(this._outcome) {
+      listener(this._outcome.outcome === DeferredOutcome.Resolved ?
+        { status: 'fulfilled', value: this._outcome.value } :
+        { status: 'rejected', reason: this._outcome.reason });
+
+      return toDisposable(() => void 0);
+    }
+
+    this._settleListeners.add(listener);
+    return toDisposable(() => this._settleListeners.delete(listener));
+  }
+
+  private _settle(result: PromiseSettledResult<T>): void {
+    for(const disposable of this._disposables.splice(0)) {
+      disposable.dispose();
+    }
+
+    const listeners = [...this._settleListeners];
+
+    this._settleListeners.clear();
+    this._progressListeners.clear();
+
+    for(const listener of listeners) {
+      listener(result);
+    }
+  }
 }
 
 export default Deferred;
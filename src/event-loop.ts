@@ -1,14 +1,110 @@
 import Deferred from './deferred';
+import { asPromise } from './core';
+import { CronExpression } from './cron';
+import { WorkerPool } from './worker-pool';
+import type { QueueMetrics } from './metrics';
 import { shortId } from './_internals/uid';
-import { Exception } from './_internals/errors';
+import { Exception, CanceledError } from './_internals/errors';
 import IDisposable from './_internals/disposable';
-import { Stack, Order } from './_internals/stack';
+import type { Writable } from './_internals/types';
 import { isPlainObject } from './_internals/utils';
+import { RateLimiter, RateLimiterOptions } from './_internals/rate-limiter';
+import { MetricsRecorder } from './_internals/metrics-recorder';
+import { PriorityQueue } from './_internals/priority-queue';
+import { QueueStore, MemoryQueueStore, DeadLetter, DeadLetterStore, MemoryDeadLetterStore, partitionOf } from './queue-store';
 import { EventEmitter, Event as BaseEvent, EventSubscribeOptions } from './events';
 
 
-export type EventLoopOptions = {
+export type EventLoopOptions<T = any> = {
+
+  /**
+   * The number of jobs run at the same time by the handler given to `start` (default is 1).
+   */
+  concurrency?: number;
+
+  /**
+   * The storage used to keep the jobs (default is an in-memory store).
+   */
+  store?: QueueStore<T>;
+
+  /**
+   * Keeps the jobs that failed all of their attempts. Passing `true` uses an in-memory store.
+   */
+  deadLetter?: boolean | DeadLetterStore<T, any>;
+
+  /**
+   * The number of finished jobs kept for lookup with `getJob` (default is 1000).
+   */
+  maxFinishedJobs?: number;
+
+  /**
+   * Caps the number of jobs dispatched within a window of time, across every message type.
+   */
+  limiter?: RateLimiterOptions;
+
+  /**
+   * Hands the jobs to the function given to `start` in batches, see `BatchProcessFn`.
+   * The concurrency then limits the number of batches run at the same time.
+   */
+  batch?: BatchOptions;
+
+  /**
+   * Gives every active job a lease, see `StalledOptions`.
+   */
+  stalled?: StalledOptions;
+
+  /**
+   * Emits a `metrics` event with a snapshot of `getMetrics` at this interval (in milliseconds) while processing.
+   */
+  metricsInterval?: number;
+
+  /**
+   * The maximum number of jobs waiting in the queue.
+   */
+  maxQueueSize?: number;
+
+  /**
+   * What `add` does when the queue is full: `reject-new` throws (default) and
+   * `drop-oldest` cancels the job that has been waiting the longest.
+   */
+  overflow?: 'drop-oldest' | 'reject-new';
+
+  /**
+   * The options of the job groups, by group name. See `JobOptions.group`.
+   */
+  groups?: Record<string, GroupOptions>;
+}
+
+export type GroupOptions = {
+
+  /**
+   * The number of jobs of the group run at the same time (unlimited by default).
+   */
   concurrency?: number;
+
+  /**
+   * The number of jobs of the group dispatched in a row on its turn (default is 1).
+   */
+  weight?: number;
+}
+
+export type StalledOptions = {
+
+  /**
+   * How long (in milliseconds) an active job may go without a heartbeat. The lease is extended
+   * by `heartbeat`, `updateProgress` and `log`; a job whose lease expires is stalled.
+   */
+  lease: number;
+
+  /**
+   * How often (in milliseconds) the leases are checked (default is half of the lease).
+   */
+  interval?: number;
+
+  /**
+   * The number of times a job may stall and be moved back to waiting before it fails (default is 1).
+   */
+  maxStalls?: number;
 }
 
 /**
@@ -37,214 +133,663 @@ export interface EventLoopConstructor {
    * 
    * @param options Optional configuration options for the event loop.
    */
-  new <T = any, R = any, E = unknown>(options?: EventLoopOptions): IEventLoop<T, R, E>;
+  new <T = any, R = any, E = unknown>(options?: EventLoopOptions<T>): IEventLoop<T, R, E>;
 }
 
 
 let promise: Promise<void> | undefined;
 
+/**
+ * Built-in strategies used to compute the delay between job attempts.
+ */
+export type BackoffStrategy = 'fixed' | 'exponential' | 'exponential-jitter';
+
+/**
+ * Computes the delay (in milliseconds) before the next attempt of a failed job.
+ * 
+ * @param attempt The number of attempts already made (starting at 1).
+ * @param error The error thrown by the last attempt.
+ */
+export type BackoffFunction = (attempt: number, error: unknown) => number;
+
+export type BackoffOptions = {
+  type: BackoffStrategy;
+  delay: number;
+  maxDelay?: number;
+}
+
+export type RepeatOptions = {
+
+  /**
+   * Repeats the job every given number of milliseconds.
+   */
+  every?: number;
+
+  /**
+   * Repeats the job following a 5 or 6-field cron expression.
+   */
+  cron?: string;
+
+  /**
+   * The UTC offset used to evaluate the cron expression, in minutes or as `'+HH:mm'`.
+   */
+  utcOffset?: number | string;
+
+  /**
+   * The maximum number of times the job is repeated.
+   */
+  limit?: number;
+
+  /**
+   * Identifies the repeatable job. Adding a job with the same key replaces it.
+   */
+  key?: string;
+}
+
 export type JobOptions = {
   timeout?: number;
   delay?: number;
+
+  /**
+   * Jobs with a higher priority are dispatched first (default is 0).
+   * Jobs sharing the same priority are dispatched in insertion order.
+   */
+  priority?: number;
+
+  /**
+   * The total number of times the job may be attempted (default is 1).
+   */
+  attempts?: number;
+
+  /**
+   * The delay policy applied between attempts. A number is treated as a fixed delay.
+   */
+  backoff?: number | BackoffOptions | BackoffFunction;
+
+  /**
+   * Turns the job into a repeatable job, added to the queue on every occurrence.
+   */
+  repeat?: RepeatOptions;
+
+  /**
+   * The jobs that must finish before this one is queued. The job stays
+   * in the `waiting-children` state until then, kept in memory rather than in the store.
+   */
+  dependsOn?: JobDependency[];
+
+  /**
+   * The time (in milliseconds since `queuedAt`) within which the job must start,
+   * or it is discarded with an `expired` event. A job is only found expired when
+   * dispatch reaches it, and reports its waiting state until then.
+   */
+  ttl?: number;
+
+  /**
+   * The timestamp before which the job must start, or it is discarded with an `expired` event
+   * (see `ttl` for when it happens).
+   */
+  expiresAt?: number;
+
+  /**
+   * The group (e.g. a tenant) of the job. Groups take turns to dispatch their jobs,
+   * so that a busy group cannot starve the others; priorities apply within a group.
+   */
+  group?: string;
+
+  /**
+   * A custom id for the job, used as its deduplication key when `dedupeKey` is omitted.
+   * It cannot be reused until the job holding it has finished.
+   */
+  jobId?: string;
+
+  /**
+   * Adding a job whose key belongs to a job that is still waiting or active is a duplicate.
+   */
+  dedupeKey?: string;
+
+  /**
+   * How long (in milliseconds) the key of a completed job still blocks duplicates (default is 0).
+   */
+  dedupeTtl?: number;
+
+  /**
+   * What happens to a duplicate: `ignore` drops it (default) and `replace` cancels the job
+   * it duplicates, unless that job is already active or completed.
+   */
+  onDuplicate?: 'ignore' | 'replace';
 }
 
+/**
+ * What happens to a job when one of its dependencies fails or is cancelled:
+ * 
+ * - `fail`: the job fails right away (default).
+ * - `ignore`: the failure is recorded and the job keeps waiting for its other dependencies.
+ * - `continue`: the failure is recorded and the job is queued right away.
+ */
+export type ChildFailurePolicy = 'fail' | 'ignore' | 'continue';
+
+export type JobDependency = string | {
+  jobId: string;
+  onFailure?: ChildFailurePolicy;
+};
+
 export interface Job<T> {
   readonly data: T;
   readonly jobId: string;
   readonly queuedAt: number;
   readonly messageType?: string;
   readonly options: JobOptions;
-}
+  readonly attemptsMade: number;
 
-export type ProcessFn<T> = (context: Job<T>, abortSignal: AbortSignal) => Promise<any>;
+  /**
+   * The timestamp before which a job waiting on the backoff of a failed attempt is not dispatched.
+   */
+  readonly availableAt?: number;
 
+  /**
+   * The results of the completed dependencies, by job id.
+   */
+  readonly childResults?: Readonly<Record<string, unknown>>;
 
+  /**
+   * The errors of the dependencies that failed or were cancelled without failing the job, by job id.
+   */
+  readonly childFailures?: Readonly<Record<string, unknown>>;
+}
 
-/* events */
-class CompletedEvent<T, R = any> extends BaseEvent<Job<T> & { result: R }> {
-  constructor(target: Job<T> & { result: R }) {
-    super('completed', target, { cancelable: false });
-  }
+/**
+ * Describes a job and the children it waits for, see `EventLoop.addFlow`.
+ */
+export interface FlowJob<T> {
+  data: T;
+  type?: string;
+  options?: Omit<JobOptions, 'repeat'>;
+  children?: FlowJob<T>[];
+
+  /**
+   * What happens to the parent when this job fails (default is `fail`).
+   */
+  onFailure?: ChildFailurePolicy;
 }
 
-class FailedEvent<T, E = Error> extends BaseEvent<Job<T> & { error: E }> {
-  constructor(target: Job<T> & { error: E }) {
-    super('failed', target, { cancelable: false });
-  }
+/**
+ * The ids of the jobs added by `EventLoop.addFlow`.
+ */
+export interface FlowNode {
+  readonly jobId: string;
+  readonly children: FlowNode[];
 }
 
-class ProcessingEvent extends BaseEvent<EventLoop> {
-  constructor(target: EventLoop) {
-    super('processing', target, { cancelable: false });
-  }
+export type StopOptions = {
+
+  /**
+   * Waits for running jobs to finish instead of aborting them right away (default is true).
+   */
+  graceful?: boolean;
+
+  /**
+   * The maximum time (in milliseconds) to wait for running jobs before aborting them.
+   * Aborted jobs go back to the queue without counting the attempt.
+   */
+  timeout?: number;
 }
 
+/**
+ * Represents a snapshot of a repeatable job.
+ */
+export interface RepeatableJob {
+  readonly key: string;
+  readonly messageType?: string;
+  readonly every?: number;
+  readonly cron?: string;
+  readonly utcOffset?: number | string;
+  readonly limit?: number;
+  readonly count: number;
+  readonly next: number | null;
+}
 
-export interface EventLoopDefaultEventsMap<T, R = any, E = Error> {
-  completed: CompletedEvent<T, R>;
-  failed: FailedEvent<T, E>;
-  processing: ProcessingEvent;
+type RepeatEntry<T> = {
+  readonly key: string;
+  readonly data: T;
+  readonly messageType?: string;
+  readonly options: JobOptions;
+  readonly repeat: RepeatOptions;
+  readonly cron?: CronExpression;
+  count: number;
+  next: number | null;
+  timer?: NodeJS.Timeout;
 }
-/* events */
 
+// The longest delay accepted by `setTimeout`
+const MAX_TIMEOUT = 2_147_483_647;
 
+export type JobState = 'waiting-children' | 'waiting' | 'delayed' | 'active' | 'completed' | 'failed' | 'cancelled' | 'expired';
 
+const FINISHED_STATES: readonly JobState[] = ['completed', 'failed', 'cancelled', 'expired'];
 
 /**
- * Represents the event loop interface.
+ * Represents a snapshot of a job and its lifecycle.
  */
-export interface IEventLoop<T, R = any, E = Error> extends IDisposable {
+export interface JobInfo<T, R = any, E = unknown> extends Job<T> {
+  readonly state: JobState;
+  readonly startedAt?: number;
+  readonly finishedAt?: number;
+  readonly result?: R;
+  readonly error?: E;
+  readonly progress?: JobProgress;
+  readonly logs: readonly string[];
+  readonly stalls: number;
+}
+
+export type JobsFilter = {
+  state?: JobState | JobState[];
+}
+
+/**
+ * Represents a job that completed or failed for good.
+ */
+export type JobOutcome<T, R = any, E = unknown> =
+  | { readonly status: 'completed'; readonly job: JobInfo<T, R, E>; readonly result: R }
+  | { readonly status: 'failed'; readonly job: JobInfo<T, R, E>; readonly error: E };
+
+export type ResultsOptions = {
 
   /**
-   * Gets the number of jobs currently in the event loop queue.
+   * The number of outcomes buffered before the dispatch of new jobs is held back (default is 100).
+   *
+   * While the buffer of any consumer is full, no job is handed to a processing function, so
+   * `onIdle` and `drain` wait for the consumer to catch up. Breaking out of the `for await`
+   * loop releases the hold, and the iterators end when the event loop stops.
    */
-  readonly size: number;
+  bufferSize?: number;
+}
+
+type ResultConsumer<T, R, E> = {
+  readonly buffer: JobOutcome<T, R, E>[];
+  readonly capacity: number;
+  pending?: Deferred<IteratorResult<JobOutcome<T, R, E>>>;
+  done: boolean;
+}
+
+type JobEntry<T, R, E> = {
+  job: Job<T>;
+  state: JobState;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: R;
+  error?: E;
+  progress?: JobProgress;
+  logs: string[];
+  stalls: number;
+}
+
+type GroupState = {
+  concurrency?: number;
+  weight: number;
+  paused: boolean;
 
   /**
-   * Adds an event listener to the event loop.
-   * 
-   * @param event The name of the event to listen for.
-   * @param listener The callback function to be invoked when the event is emitted.
-   * @param thisArgs Optional value to use as 'this' when executing the listener.
-   * @param options Additional options for subscribing to the event.
-   * @returns An object that can be used to unsubscribe from the event.
+   * Whether the group was set up with `configureGroup`; other groups are only kept while paused.
    */
-  addEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
-    event: K | Omit<string, K>,
-    listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any,
-    thisArgs?: any,
-    options?: EventSubscribeOptions // eslint-disable-line comma-dangle
-  ): IDisposable & { unsubscribe: () => void };
+  configured: boolean;
+}
+
+/**
+ * The checks deciding which waiting jobs can be dispatched.
+ */
+type DispatchFilter<T> = {
+  readonly isExempt: (job: Job<T>) => boolean;
+  readonly hasCapacity: (job: Job<T>) => boolean;
+  readonly hasRoom: (group: string) => boolean;
+}
+
+/**
+ * The turn of a group in the lane of a message type.
+ */
+type Turn = {
+  readonly group: string;
+  credit: number;
+}
+
+// The group of the jobs added without one
+const DEFAULT_GROUP = '';
+
+type Lease = {
+  expiresAt: number;
+  readonly stall: () => void;
+}
+
+type DedupeClaim = {
+  readonly jobId: string;
+  timer?: NodeJS.Timeout;
+}
+
+type ParkedJob<T> = {
+  readonly job: Writable<Job<T>>;
+  readonly pending: Map<string, ChildFailurePolicy>;
+}
+
+export type JobProgress = number | { [key: string]: unknown };
+
+/**
+ * Helpers handed to the processing function to report on the running job.
+ */
+export interface JobContext {
 
   /**
-   * Removes an event listener for a specific event type.
+   * Updates the progress of the job and emits a `progress` event.
    * 
-   * @param event The event type for which the listener should be removed.
-   * @param listener The listener function to be removed.
+   * @param value The progress, either a number (e.g. a percentage) or an object.
    */
-  removeEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
-    event: K | Omit<string, K>,
-    listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any // eslint-disable-line comma-dangle
-  ): void;
+  updateProgress(value: JobProgress): void;
 
   /**
-   * Removes all event listeners for a specific event type.
+   * Appends a message to the logs of the job.
    * 
-   * @param event The event type for which all listeners should be removed.
+   * @param message The message to be logged.
    */
-  removeManyEventListeners<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
-    event: K | Omit<string, K> // eslint-disable-line comma-dangle
-  ): void;
+  log(message: string): void;
 
   /**
-   * Removes all event listeners for all event types.
+   * Extends the lease of the job when the `stalled` option is set.
    */
-  removeAllEventListeners(): void;
+  heartbeat(): void;
+}
+
+export type ProcessFn<T> = (context: Job<T>, abortSignal: AbortSignal, helpers: JobContext) => Promise<any>;
+
+export type ProcessOptions = {
 
   /**
-   * Adds a new job to the event loop queue.
-   * 
-   * @param context The context or data associated with the job.
-   * @param type Optional string identifier for the job type.
-   * @param options Additional options for the job.
-   * @returns The index of the newly added job in the queue.
+   * The number of jobs of this message type run at the same time (default is 1),
+   * or the number of batches in batch mode.
    */
-  add(context: T, type?: string, options?: JobOptions): number;
+  concurrency?: number;
 
   /**
-   * Starts the event loop, processing jobs asynchronously.
-   * 
-   * @param fn The processing function to be executed for each job in the event loop.
-   * @returns A promise that resolves when the event loop is stopped.
-   * @throws {Exception} If the event loop is already processing.
+   * Caps the number of jobs of this message type dispatched within a window of time.
    */
-  start(fn: ProcessFn<T>): Promise<void>;
+  limiter?: RateLimiterOptions;
 
   /**
-   * Disposes of the event loop, clearing all pending jobs and event listeners.
+   * Hands the jobs of this message type to the handler in batches, see `BatchProcessFn`.
    */
-  dispose(): void;
+  batch?: BatchOptions;
 }
 
+export type BatchOptions = {
+
+  /**
+   * The maximum number of jobs in a batch.
+   */
+  maxSize: number;
+
+  /**
+   * The maximum time (in milliseconds) to wait for a batch to fill up (default is 0).
+   */
+  maxWait?: number;
+}
 
 /**
- * A class for managing asynchronous event loop processing.
+ * Helpers handed to the batch processing function to settle jobs one by one.
  */
-export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R, E> {
+export interface BatchContext {
 
   /**
-   * Schedule a callback function to be executed asynchronously.
+   * Completes a job of the batch.
    * 
-   * @param callback The callback function to be scheduled.
+   * @param jobId The id of the job.
+   * @param result The result of the job.
    */
-  public static schedule<T extends ((...args: unknown[]) => any | Promise<any>)>(callback: T): void {
-    if(typeof queueMicrotask !== 'undefined' &&
-      typeof queueMicrotask === 'function') return void queueMicrotask(callback);
-
-    // Use a promise chain to ensure asynchronous execution
-    (promise || (promise = Promise.resolve()))
-      .then(callback)
-      .catch(err => {
-        // If an error occurs during execution, schedule it for immediate execution
-        this.immediate(() => { throw err; });
-      });
-  }
+  complete(jobId: string, result?: unknown): void;
 
   /**
-   * Execute a callback function immediately scheduling the "immediate" execution of the callback after I/O events' callbacks.
+   * Fails a job of the batch. The job is retried on its own if it has attempts left.
    * 
-   * @param callback The callback function to be executed.
-   * @param args The arguments to be passed to the callback function.
-   * @returns An object with a dispose method to cancel the scheduled callback.
+   * @param jobId The id of the job.
+   * @param error The error of the job.
    */
-  public static immediate<TArgs extends any[]>(callback: (...args: TArgs) => void, ...args: TArgs): IDisposable & Disposable {
-    const hasNativeMethod = typeof setImmediate === 'function';
-    const id = hasNativeMethod ? setImmediate(callback, ...args) : setTimeout(callback, 0, ...args);
+  fail(jobId: string, error: unknown): void;
+}
 
-    return {
-      dispose() {
-        if(hasNativeMethod) {
-          clearImmediate(id as NodeJS.Immediate);
-        } else {
-          clearTimeout(id as NodeJS.Timeout);
-        }
-      },
+/**
+ * Processes a batch of jobs. Jobs that were not settled through the helpers complete with
+ * the item of the returned array at their index, or all fail if the function rejects.
+ * The signal is aborted once every job of the batch has been aborted.
+ */
+export type BatchProcessFn<T> = (jobs: Job<T>[], abortSignal: AbortSignal, helpers: BatchContext) => Promise<any>;
 
-      [Symbol.dispose]() {
-        if(hasNativeMethod) {
-          clearImmediate(id as NodeJS.Immediate);
-        } else {
-          clearTimeout(id as NodeJS.Timeout);
+type HandlerEntry<T> = {
+  readonly handler: ProcessFn<T>;
+  readonly concurrency: number;
+
+  /**
+   * The number of jobs a unit of concurrency runs: `maxSize` in batch mode, otherwise 1.
+   */
+  readonly batchSize: number;
+  readonly limiter: RateLimiter;
+  readonly pool?: WorkerPool;
+}
+
+// The slot used by jobs handled by the fallback processing function
+const FALLBACK_HANDLER = Symbol('FALLBACK_HANDLER');
+
+
+/**
+ * Adapts a batch processing function to the per-job processing of the event loop.
+ * 
+ * @param fn The batch processing function.
+ * @param options The size and wait time of the batches.
+ * @returns A processing function collecting its jobs into batches.
+ */
+function batchProcessor<T>(fn: BatchProcessFn<T>, options: BatchOptions): ProcessFn<T> {
+  if(!(options.maxSize >= 1)) {
+    throw new RangeError('Batch `maxSize` must be a positive number');
+  }
+
+  type BatchItem = { job: Job<T>; signal: AbortSignal; deferred: Deferred<any> };
+
+  let batch: BatchItem[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = void 0;
+
+    // Jobs cancelled or timed out while waiting are already settled
+    const items = batch.filter(item => !item.signal.aborted);
+    batch = [];
+
+    if(items.length === 0) return;
+
+    const settled: Set<string> = new Set();
+    const ac = new AbortController();
+    let aborted = 0;
+
+    for(const item of items) {
+      item.signal.addEventListener('abort', () => {
+        if(++aborted === items.length) {
+          ac.abort(item.signal.reason);
         }
-      },
+      }, { once: true });
+    }
+
+    const settle = (jobId: string, callback: (deferred: Deferred<any>) => void) => {
+      const item = items.find(i => i.job.jobId === jobId);
+      if(!item || settled.has(jobId)) return;
+
+      settled.add(jobId);
+      callback(item.deferred);
     };
+
+    const helpers: BatchContext = {
+      complete: (jobId, result) => settle(jobId, deferred => deferred.resolve(result)),
+      fail: (jobId, error) => settle(jobId, deferred => deferred.reject(error)),
+    };
+
+    asPromise(() => fn(items.map(item => item.job), ac.signal, helpers)).then(results => {
+      items.forEach((item, index) => {
+        settle(item.job.jobId, deferred => deferred.resolve(Array.isArray(results) ? results[index] : undefined));
+      });
+    }, err => {
+      for(const item of items) {
+        settle(item.job.jobId, deferred => deferred.reject(err));
+      }
+    });
+  };
+
+  return (job, signal) => {
+    const deferred = new Deferred<any>();
+    batch.push({ job, signal, deferred });
+
+    if(batch.length >= options.maxSize) {
+      flush();
+    } else if(!timer) {
+      timer = setTimeout(flush, Math.max(0, options.maxWait ?? 0));
+    }
+
+    return deferred.promise;
+  };
+}
+
+/**
+ * Computes how long a failed job should wait before being attempted again.
+ * 
+ * @param backoff The backoff policy of the job.
+ * @param attempt The number of attempts already made.
+ * @param error The error thrown by the last attempt.
+ * @returns The delay in milliseconds.
+ */
+function computeBackoff(backoff: JobOptions['backoff'], attempt: number, error: unknown): number {
+  if(!backoff) return 0;
+  if(typeof backoff === 'number') return Math.max(0, backoff);
+  if(typeof backoff === 'function') return Math.max(0, backoff(attempt, error) || 0);
+
+  let delay: number;
+
+  switch(backoff.type) {
+    case 'fixed':
+      delay = backoff.delay;
+      break;
+    case 'exponential':
+      delay = backoff.delay * Math.pow(2, attempt - 1);
+      break;
+    case 'exponential-jitter':
+      delay = Math.random() * backoff.delay * Math.pow(2, attempt - 1);
+      break;
+    default:
+      throw new Exception(`Unknown backoff strategy '${(backoff as BackoffOptions).type}'`);
   }
 
+  if(typeof backoff.maxDelay === 'number' && backoff.maxDelay >= 0) {
+    delay = Math.min(delay, backoff.maxDelay);
+  }
 
-  readonly #eventLoopQueueStack: Stack<Job<T>> = new Stack<Job<T>>({ order: Order.FIFO });
-  #eventLoopQueueProcessor: ProcessFn<T> | undefined;
+  return Math.max(0, Math.round(delay));
+}
 
-  readonly #ee: EventEmitter<EventLoopDefaultEventsMap<T, R, E> & { [key: string]: any }>;
-  readonly #options: EventLoopOptions;
-  #stopPromise?: Deferred<void>;
-  #executing: Job<T>[] = [];
 
-  /**
-   * Creates a new instance of the EventLoop class.
-   * 
-   * @param options Optional configuration options for the event loop.
-   */
-  public constructor(options?: EventLoopOptions) {
-    this.#options = Object.assign({}, options, { concurrency: 1 });
-    this.#ee = new EventEmitter<EventLoopDefaultEventsMap<T, R, E> & { [key: string]: any }>();
+
+/* events */
+class CompletedEvent<T, R = any> extends BaseEvent<Job<T> & { result: R }> {
+  constructor(target: Job<T> & { result: R }) {
+    super('completed', target, { cancelable: false });
+  }
+}
+
+class FailedEvent<T, E = Error> extends BaseEvent<Job<T> & { error: E }> {
+  constructor(target: Job<T> & { error: E }) {
+    super('failed', target, { cancelable: false });
+  }
+}
+
+class JobProgressEvent<T> extends BaseEvent<Job<T> & { progress: JobProgress }> {
+  constructor(target: Job<T> & { progress: JobProgress }) {
+    super('progress', target, { cancelable: false });
+  }
+}
+
+class RateLimitedEvent<T> extends BaseEvent<Job<T> & { delay: number }> {
+  constructor(target: Job<T> & { delay: number }) {
+    super('limited', target, { cancelable: false });
+  }
+}
+
+class RetryingEvent<T, E = Error> extends BaseEvent<Job<T> & { attempt: number; error: E; delay: number }> {
+  constructor(target: Job<T> & { attempt: number; error: E; delay: number }) {
+    super('retrying', target, { cancelable: false });
+  }
+}
+
+class StalledEvent<T> extends BaseEvent<Job<T> & { stalls: number }> {
+  constructor(target: Job<T> & { stalls: number }) {
+    super('stalled', target, { cancelable: false });
+  }
+}
+
+class CancelledEvent<T> extends BaseEvent<Job<T> & { reason?: string }> {
+  constructor(target: Job<T> & { reason?: string }) {
+    super('cancelled', target, { cancelable: false });
+  }
+}
+
+class ExpiredEvent<T> extends BaseEvent<Job<T> & { expiresAt: number }> {
+  constructor(target: Job<T> & { expiresAt: number }) {
+    super('expired', target, { cancelable: false });
+  }
+}
+
+class DeduplicatedEvent<T> extends BaseEvent<{ key: string; jobId: string; data: T; messageType?: string }> {
+  constructor(target: { key: string; jobId: string; data: T; messageType?: string }) {
+    super('deduplicated', target, { cancelable: false });
+  }
+}
+
+class MetricsEvent extends BaseEvent<QueueMetrics> {
+  constructor(target: QueueMetrics) {
+    super('metrics', target, { cancelable: false });
+  }
+}
+
+class ProcessingEvent extends BaseEvent<EventLoop<any, any, any>> {
+  constructor(target: EventLoop<any, any, any>) {
+    super('processing', target, { cancelable: false });
   }
+}
+
+
+export interface EventLoopDefaultEventsMap<T, R = any, E = Error> {
+  completed: CompletedEvent<T, R>;
+  failed: FailedEvent<T, E>;
+  retrying: RetryingEvent<T, E>;
+  progress: JobProgressEvent<T>;
+  limited: RateLimitedEvent<T>;
+  cancelled: CancelledEvent<T>;
+  stalled: StalledEvent<T>;
+  expired: ExpiredEvent<T>;
+  deduplicated: DeduplicatedEvent<T>;
+  metrics: MetricsEvent;
+  processing: ProcessingEvent;
+}
+/* events */
+
+
+
+
+/**
+ * Represents the event loop interface.
+ */
+export interface IEventLoop<T, R = any, E = Error> extends IDisposable {
 
   /**
    * Gets the number of jobs currently in the event loop queue.
    */
-  public get size(): number {
-    return this.#eventLoopQueueStack.size();
-  }
+  readonly size: number;
+
+  /**
+   * Checks if the dispatch of new jobs is paused.
+   */
+  readonly isPaused: boolean;
 
   /**
    * Adds an event listener to the event loop.
@@ -255,14 +800,12 @@ export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R
    * @param options Additional options for subscribing to the event.
    * @returns An object that can be used to unsubscribe from the event.
    */
-  public addEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
+  addEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
     event: K | Omit<string, K>,
     listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any,
     thisArgs?: any,
-    options?: EventSubscribeOptions | undefined // eslint-disable-line comma-dangle
-  ): IDisposable & { unsubscribe: () => void } {
-    return this.#ee.subscribe(event, listener, thisArgs, options);
-  }
+    options?: EventSubscribeOptions // eslint-disable-line comma-dangle
+  ): IDisposable & { unsubscribe: () => void };
 
   /**
    * Removes an event listener for a specific event type.
@@ -270,24 +813,24 @@ export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R
    * @param event The event type for which the listener should be removed.
    * @param listener The listener function to be removed.
    */
-  public removeEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(event: K | Omit<string, K>, listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any): void {
-    this.#ee.removeListener(event, listener);    
-  }
+  removeEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
+    event: K | Omit<string, K>,
+    listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any // eslint-disable-line comma-dangle
+  ): void;
 
   /**
    * Removes all event listeners for a specific event type.
+   * 
    * @param event The event type for which all listeners should be removed.
    */
-  public removeManyEventListeners<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(event: K | Omit<string, K>): void {
-    this.#ee.removeListener(event);    
-  }
+  removeManyEventListeners<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
+    event: K | Omit<string, K> // eslint-disable-line comma-dangle
+  ): void;
 
   /**
    * Removes all event listeners for all event types.
    */
-  public removeAllEventListeners(): void {
-    this.#ee.removeListeners();
-  }
+  removeAllEventListeners(): void;
 
   /**
    * Adds a new job to the event loop queue.
@@ -295,135 +838,2233 @@ export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R
    * @param context The context or data associated with the job.
    * @param type Optional string identifier for the job type.
    * @param options Additional options for the job.
-   * @returns The index of the newly added job in the queue.
+   * @returns The id of the newly added job, the id of the job it duplicates,
+   *          or the key of the repeatable job when `options.repeat` is set.
+   * @throws {Exception} If the event loop is stopping or a dependency is unknown.
    */
-  public add(context: T, type?: string, options?: JobOptions): number {
-    const jobId = shortId();
-
-    this.#eventLoopQueueStack.push({
-      data: context,
-      jobId,
-      queuedAt: Date.now(),
-      messageType: type,
-      options: Object.assign({}, options),
-    });
+  add(context: T, type?: string, options?: JobOptions): string;
 
-    EventLoop.schedule(() => this.#execute());
-    return this.#eventLoopQueueStack.findIndex(j => j.jobId === jobId);
-  }
+  /**
+   * Adds a tree of jobs. Every job is queued once its children have finished,
+   * and receives their results in `childResults`.
+   * 
+   * @param flow The root job of the tree.
+   * @returns The ids of the added jobs, in the shape of the tree.
+   * @throws {Exception} If the event loop is stopping.
+   */
+  addFlow(flow: FlowJob<T>): FlowNode;
 
-  #execute(): void {
-    if(!this.#eventLoopQueueProcessor) return;
-    if(this.#executing.length > 0) return;
-    if(this.#eventLoopQueueStack.size() === 0) return;
-    if(typeof this.#eventLoopQueueProcessor !== 'function') return;
+  /**
+   * Lists the repeatable jobs.
+   * 
+   * @returns The repeatable jobs and their next occurrence.
+   */
+  listRepeatable(): RepeatableJob[];
 
-    while(this.#executing.length < (this.#options.concurrency || 1)) {
-      const job = this.#eventLoopQueueStack.pop();
-      if(!job) break;
-    
-      this.#executing.push(job);
-    }
+  /**
+   * Removes a repeatable job. Occurrences already in the queue are not affected.
+   * 
+   * @param key The key of the repeatable job.
+   * @returns True if the repeatable job was removed, false if it is unknown.
+   */
+  removeRepeatable(key: string): boolean;
 
-    for(const job of this.#executing) {
-      const processJob = () => {
-        if(!this.#eventLoopQueueProcessor) return;
-
-        if(job.options.timeout && job.options.timeout > 0) {
-          const ac = new AbortController();
-  
-          Promise.race([
-            this.#eventLoopQueueProcessor(job, ac.signal),
-            new Promise((_, reject) => {
-              setTimeout(() => {
-                ac.abort(new Error(`Timeout of ${job.options.timeout}ms exceeded`));
-                reject(new Error(`Timeout of ${job.options.timeout}ms exceeded`));
-              }, job.options.timeout);
-            }),
-          ]).then(result => {
-            this.#ee.emit('completed', new CompletedEvent({
-              ...job,
-              result,
-            }));
-          }).catch(err => {
-            if(typeof err !== 'object' || isPlainObject(err)) {
-              err = new Error(typeof err === 'object' ? err.message ?? err : err);
-            }
-  
-            this.#ee.emit('failed', new FailedEvent({
-              ...job,
-              error: err,
-            }));
-          }).finally(() => {
-            const index = this.#executing.findIndex(j => j.jobId === job.jobId);
-  
-            if(index > -1) {
-              this.#executing.splice(index, 1);
-            }
-          });
-        } else {
-          this.#eventLoopQueueProcessor(job, new AbortController().signal).then(result => {
-            this.#ee.emit('completed', new CompletedEvent({
-              ...job,
-              result,
-            }));
-          }).catch(err => {
-            if(typeof err !== 'object' || isPlainObject(err)) {
-              err = new Error(typeof err === 'object' ? err.message ?? err : err);
-            }
-  
-            this.#ee.emit('failed', new FailedEvent({
-              ...job,
-              error: err,
-            }));
-          }).finally(() => {
-            const index = this.#executing.findIndex(j => j.jobId === job.jobId);
-  
-            if(index > -1) {
-              this.#executing.splice(index, 1);
-            }
-          });
-        }
-      };
+  /**
+   * Registers the processing function for a message type, with its own concurrency limit.
+   * 
+   * @param type The message type handled by the function.
+   * @param handler The processing function to be executed for each job of this type, a batch processing
+   *                function when `options.batch` is set, or the path of a module whose processing function
+   *                runs in a pool of worker threads (started on the first job of the type) with the same
+   *                `(job, signal, helpers)` arguments.
+   * @param options Additional options for the handler.
+   */
+  process(type: string, handler: ProcessFn<T> | BatchProcessFn<T> | string, options?: ProcessOptions): void;
 
-      if(job.options.delay && job.options.delay > 0) {
-        setTimeout(() => {
-          EventLoop.schedule(processJob);
-        }, job.options.delay);
-      } else {
-        EventLoop.schedule(processJob);
-      }
-    }
-  }
+  /**
+   * Holds back the dispatch of jobs for a while, e.g. after a `429 Too Many Requests` response.
+   * 
+   * @param duration The time (in milliseconds) to hold back the dispatch.
+   * @param type Optional message type to hold back; every job is held back when omitted.
+   */
+  rateLimit(duration: number, type?: string): void;
 
   /**
    * Starts the event loop, processing jobs asynchronously.
    * 
-   * @param fn The processing function to be executed for each job in the event loop.
+   * @param fn The fallback processing function, executed for jobs whose message type has no handler,
+   *           a batch processing function when the `batch` option is set, or the path of a module
+   *           whose processing function runs in a pool of worker threads.
    * @returns A promise that resolves when the event loop is stopped.
    * @throws {Exception} If the event loop is already processing.
    */
-  public start(fn: ProcessFn<T>): Promise<void> {
-    // eslint-disable-next-line no-extra-boolean-cast
-    if(!!this.#eventLoopQueueProcessor) {
-      throw new Exception('SyncQueue is already processing');
-    }
+  start(fn?: ProcessFn<T> | BatchProcessFn<T> | string): Promise<void>;
 
-    this.#eventLoopQueueProcessor = fn;
-    EventLoop.schedule(() => this.#execute());
-    this.#ee.emit('processing', new ProcessingEvent(this));
+  /**
+   * Pauses the dispatch of new jobs. Jobs already running are not affected.
+   */
+  pause(): void;
 
-    this.#stopPromise = new Deferred<void>();
-    return this.#stopPromise.promise;
-  }
+  /**
+   * Resumes the dispatch of jobs after a call to `pause`.
+   */
+  resume(): void;
 
   /**
-   * Disposes of the event loop, clearing all pending jobs and event listeners.
+   * Sets the concurrency and weight of a job group.
+   * 
+   * @param group The name of the group.
+   * @param options The options of the group.
    */
-  public dispose(): void {
-    this.#eventLoopQueueProcessor = undefined;
-    this.#eventLoopQueueStack.clear();
-    this.#executing = [];
+  configureGroup(group: string, options: GroupOptions): void;
+
+  /**
+   * Pauses the dispatch of the jobs of a group. Other groups are not affected.
+   * 
+   * @param group The name of the group.
+   */
+  pauseGroup(group: string): void;
+
+  /**
+   * Resumes the dispatch of the jobs of a group after a call to `pauseGroup`.
+   * 
+   * @param group The name of the group.
+   */
+  resumeGroup(group: string): void;
+
+  /**
+   * Checks if the dispatch of the jobs of a group is paused.
+   * 
+   * @param group The name of the group.
+   */
+  isGroupPaused(group: string): boolean;
+
+  /**
+   * Waits until the queue is empty and no job is running or waiting to be retried.
+   * 
+   * @returns A promise that resolves when the event loop is idle.
+   */
+  onIdle(): Promise<void>;
+
+  /**
+   * Waits until every queued job has been dispatched. Jobs may still be running.
+   * 
+   * @returns A promise that resolves when the queue is empty.
+   */
+  drain(): Promise<void>;
+
+  /**
+   * Stops the event loop. New jobs are rejected while stopping, jobs that have not started
+   * yet are kept in the queue and the promise returned by `start` is resolved once done.
+   * 
+   * @param options Options for stopping the event loop.
+   * @returns A promise that resolves when the event loop is stopped.
+   */
+  stop(options?: StopOptions): Promise<void>;
+
+  /**
+   * Lists the jobs that failed all of their attempts.
+   * 
+   * @returns The dead letters, or an empty array if no dead-letter store is configured.
+   */
+  listDeadLetters(): DeadLetter<T, E>[];
+
+  /**
+   * Moves dead letters back to the queue with their attempts reset.
+   * 
+   * @param jobIds The ids of the jobs to requeue (default is every dead letter).
+   * @returns The ids of the requeued jobs.
+   * @throws {Exception} If the event loop is stopping.
+   */
+  requeueDeadLetters(jobIds?: string[]): string[];
+
+  /**
+   * Removes dead letters for good.
+   * 
+   * @param jobIds The ids of the jobs to remove (default is every dead letter).
+   * @returns The number of removed dead letters.
+   */
+  purgeDeadLetters(jobIds?: string[]): number;
+
+  /**
+   * Retrieves a snapshot of a job.
+   * 
+   * @param jobId The id of the job.
+   * @returns The job and its state, or undefined if the job is unknown or was evicted.
+   */
+  getJob(jobId: string): JobInfo<T, R, E> | undefined;
+
+  /**
+   * Retrieves a snapshot of the metrics of the event loop, see `toPrometheus` to export it.
+   * 
+   * @returns The job counts, throughput, durations, failure rates and concurrency utilisation.
+   */
+  getMetrics(): QueueMetrics;
+
+  /**
+   * Iterates over the jobs as they complete or fail. Outcomes are buffered until consumed,
+   * and the dispatch of new jobs is held back while the buffer is full.
+   * 
+   * @param options Additional options for the iterator.
+   * @returns An async iterator of outcomes, ended by `return` (e.g. `break` in `for await`) or `dispose`.
+   */
+  results(options?: ResultsOptions): AsyncIterableIterator<JobOutcome<T, R, E>>;
+
+  /**
+   * Waits for a job to complete.
+   * 
+   * @param jobId The id of the job.
+   * @returns A promise that resolves with the result of the job, or rejects with its error
+   *          if it fails, is cancelled or expires.
+   */
+  waitFor(jobId: string): Promise<R>;
+
+  /**
+   * Retrieves a snapshot of the known jobs.
+   * 
+   * @param filter Optional filter applied to the jobs.
+   * @returns The jobs and their states.
+   */
+  getJobs(filter?: JobsFilter): JobInfo<T, R, E>[];
+
+  /**
+   * Cancels a job. A waiting or delayed job is removed from the queue, a job waiting
+   * for its children stops waiting and the `AbortSignal` of an active job is aborted.
+   * 
+   * @param jobId The id of the job.
+   * @param reason Optional reason for the cancellation.
+   * @returns True if the job was cancelled, false if it is unknown or already finished.
+   */
+  cancel(jobId: string, reason?: string): boolean;
+
+  /**
+   * Disposes of the event loop, clearing all pending jobs and event listeners.
+   */
+  dispose(): void;
+}
+
+
+/**
+ * A class for managing asynchronous event loop processing.
+ */
+export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R, E> {
+
+  /**
+   * Schedule a callback function to be executed asynchronously.
+   * 
+   * @param callback The callback function to be scheduled.
+   */
+  public static schedule<T extends ((...args: unknown[]) => any | Promise<any>)>(callback: T): void {
+    if(typeof queueMicrotask !== 'undefined' &&
+      typeof queueMicrotask === 'function') return void queueMicrotask(callback);
+
+    // Use a promise chain to ensure asynchronous execution
+    (promise || (promise = Promise.resolve()))
+      .then(callback)
+      .catch(err => {
+        // If an error occurs during execution, schedule it for immediate execution
+        this.immediate(() => { throw err; });
+      });
+  }
+
+  /**
+   * Execute a callback function immediately scheduling the "immediate" execution of the callback after I/O events' callbacks.
+   * 
+   * @param callback The callback function to be executed.
+   * @param args The arguments to be passed to the callback function.
+   * @returns An object with a dispose method to cancel the scheduled callback.
+   */
+  public static immediate<TArgs extends any[]>(callback: (...args: TArgs) => void, ...args: TArgs): IDisposable & Disposable {
+    const hasNativeMethod = typeof setImmediate === 'function';
+    const id = hasNativeMethod ? setImmediate(callback, ...args) : setTimeout(callback, 0, ...args);
+
+    return {
+      dispose() {
+        if(hasNativeMethod) {
+          clearImmediate(id as NodeJS.Immediate);
+        } else {
+          clearTimeout(id as NodeJS.Timeout);
+        }
+      },
+
+      [Symbol.dispose]() {
+        if(hasNativeMethod) {
+          clearImmediate(id as NodeJS.Immediate);
+        } else {
+          clearTimeout(id as NodeJS.Timeout);
+        }
+      },
+    };
+  }
+
+
+  readonly #store: QueueStore<T>;
+  readonly #deadLetters?: DeadLetterStore<T, E>;
+  #eventLoopQueueProcessor: ProcessFn<T> | undefined;
+  #eventLoopQueuePool?: WorkerPool;
+  readonly #handlers: Map<string, HandlerEntry<T>> = new Map();
+  readonly #limiter: RateLimiter;
+  readonly #typeLimiters: Map<string, RateLimiter> = new Map();
+  readonly #pausedTypes: Set<string> = new Set();
+  // The handler slots whose dispatch is held back by a rate limiter, each reported once per stall
+  readonly #rateLimited: Set<string | symbol> = new Set();
+  readonly #fallbackLimiter: RateLimiter = new RateLimiter();
+  #wakeTimer?: { timeout: NodeJS.Timeout; at: number };
+  #running: boolean = false;
+
+  readonly #ee: EventEmitter<EventLoopDefaultEventsMap<T, R, E> & { [key: string]: any }>;
+  readonly #options: EventLoopOptions<T>;
+  readonly #controllers: Map<string, AbortController> = new Map();
+  readonly #timers: Map<string, { timeout: NodeJS.Timeout; job: Job<T> }> = new Map();
+  readonly #jobs: Map<string, JobEntry<T, R, E>> = new Map();
+  readonly #repeatables: Map<string, RepeatEntry<T>> = new Map();
+  readonly #finished: Set<string> = new Set();
+  readonly #parked: Map<string, ParkedJob<T>> = new Map();
+  readonly #dependents: Map<string, Set<string>> = new Map();
+  readonly #dedupe: Map<string, DedupeClaim> = new Map();
+  readonly #leases: Map<string, Lease> = new Map();
+  #watchdog?: NodeJS.Timeout;
+  readonly #metrics: MetricsRecorder = new MetricsRecorder();
+  readonly #consumers: Set<ResultConsumer<T, R, E>> = new Set();
+  readonly #jobWaiters: Map<string, Deferred<R>[]> = new Map();
+  #metricsTimer?: NodeJS.Timeout;
+  readonly #groups: Map<string, GroupState> = new Map();
+  readonly #lanes: Map<string | undefined, Map<string, Turn>> = new Map();
+
+  // The ids of the jobs waiting in the store, and those jobs from the oldest for `drop-oldest`
+  readonly #queued: Set<string> = new Set();
+  readonly #byAge: PriorityQueue<Job<T>> = new PriorityQueue();
+  #waiters: { predicate: () => boolean; deferred: Deferred<void> }[] = [];
+  #stopPromise?: Deferred<void>;
+  #stopping?: Promise<void>;
+  #executing: Job<T>[] = [];
+  #paused: boolean = false;
+  #disposed: boolean = false;
+
+  /**
+   * Creates a new instance of the EventLoop class.
+   * 
+   * @param options Optional configuration options for the event loop.
+   */
+  public constructor(options?: EventLoopOptions<T>) {
+    this.#options = Object.assign({ concurrency: 1, maxFinishedJobs: 1000 }, options);
+    this.#store = this.#options.store ?? new MemoryQueueStore<T>();
+    this.#limiter = new RateLimiter(this.#options.limiter);
+
+    for(const [group, groupOptions] of Object.entries(this.#options.groups ?? {})) {
+      this.configureGroup(group, groupOptions);
+    }
+
+    if(typeof this.#options.maxQueueSize === 'number' && !(this.#options.maxQueueSize > 0)) {
+      throw new RangeError('The `maxQueueSize` option must be a positive number');
+    }
+
+    if(this.#options.stalled && !(this.#options.stalled.lease > 0)) {
+      throw new RangeError('The `stalled.lease` option must be a positive number');
+    }
+
+    if(this.#options.deadLetter) {
+      this.#deadLetters = this.#options.deadLetter === true ?
+        new MemoryDeadLetterStore<T, E>() :
+        this.#options.deadLetter;
+    }
+
+    for(const job of this.#store.list()) {
+      this.#track(job, this.#waitingState(job));
+    }
+
+    for(const job of this.#store.list('waiting')) {
+      this.#queueTurn(job);
+      this.#queue(job);
+    }
+
+    this.#ee = new EventEmitter<EventLoopDefaultEventsMap<T, R, E> & { [key: string]: any }>();
+  }
+
+  /**
+   * Gets the number of jobs currently in the event loop queue.
+   */
+  public get size(): number {
+    return this.#store.size;
+  }
+
+  /**
+   * Checks if the dispatch of new jobs is paused.
+   */
+  public get isPaused(): boolean {
+    return this.#paused;
+  }
+
+  /**
+   * Adds an event listener to the event loop.
+   * 
+   * @param event The name of the event to listen for.
+   * @param listener The callback function to be invoked when the event is emitted.
+   * @param thisArgs Optional value to use as 'this' when executing the listener.
+   * @param options Additional options for subscribing to the event.
+   * @returns An object that can be used to unsubscribe from the event.
+   */
+  public addEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(
+    event: K | Omit<string, K>,
+    listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any,
+    thisArgs?: any,
+    options?: EventSubscribeOptions | undefined // eslint-disable-line comma-dangle
+  ): IDisposable & { unsubscribe: () => void } {
+    return this.#ee.subscribe(event, listener, thisArgs, options);
+  }
+
+  /**
+   * Removes an event listener for a specific event type.
+   * 
+   * @param event The event type for which the listener should be removed.
+   * @param listener The listener function to be removed.
+   */
+  public removeEventListener<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(event: K | Omit<string, K>, listener: (event: EventLoopDefaultEventsMap<T, R, E>[K]) => any): void {
+    this.#ee.removeListener(event, listener);    
+  }
+
+  /**
+   * Removes all event listeners for a specific event type.
+   * @param event The event type for which all listeners should be removed.
+   */
+  public removeManyEventListeners<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(event: K | Omit<string, K>): void {
+    this.#ee.removeListener(event);    
+  }
+
+  /**
+   * Removes all event listeners for all event types.
+   */
+  public removeAllEventListeners(): void {
+    this.#ee.removeListeners();
+  }
+
+  /**
+   * Adds a new job to the event loop queue.
+   * 
+   * @param context The context or data associated with the job.
+   * @param type Optional string identifier for the job type.
+   * @param options Additional options for the job.
+   * @returns The id of the newly added job, the id of the job it duplicates,
+   *          or the key of the repeatable job when `options.repeat` is set.
+   * @throws {Exception} If the event loop is stopping, a dependency is unknown or
+   *                    a job with the same `jobId` has not finished.
+   */
+  public add(context: T, type?: string, options?: JobOptions): string {
+    if(this.#stopping) {
+      throw new Exception('EventLoop is stopping and does not accept new jobs');
+    }
+
+    if(options?.repeat && options.dependsOn?.length) {
+      throw new Exception('A repeatable job cannot depend on other jobs');
+    }
+
+    if(options?.repeat) return this.#addRepeatable(context, type, options);
+
+    const key = options?.dedupeKey ?? options?.jobId;
+    const claim = key ? this.#dedupe.get(key) : undefined;
+
+    if(claim) {
+      const state = this.#jobs.get(claim.jobId)?.state;
+      const replaceable = options?.onDuplicate === 'replace' && !!state && !['active', 'completed'].includes(state);
+
+      if(!replaceable || !this.cancel(claim.jobId, 'Replaced by a duplicate job')) {
+        this.#emit('deduplicated', new DeduplicatedEvent({
+          key: key!,
+          jobId: claim.jobId,
+          data: context,
+          messageType: type,
+        }));
+
+        return claim.jobId;
+      }
+    }
+
+    const existing = options?.jobId ? this.#jobs.get(options.jobId) : undefined;
+
+    if(existing && !FINISHED_STATES.includes(existing.state)) {
+      throw new Exception(`Job '${options!.jobId}' already exists and has not finished`);
+    }
+
+    const job: Job<T> = {
+      data: context,
+      jobId: options?.jobId ?? shortId(),
+      queuedAt: Date.now(),
+      messageType: type,
+      options: Object.assign({}, options),
+      attemptsMade: 0,
+    };
+
+    if(job.options.dependsOn?.length) {
+      this.#park(job);
+      return job.jobId;
+    }
+
+    this.#makeRoom();
+    this.#enqueue(job);
+    this.#track(job, this.#waitingState(job));
+
+    EventLoop.schedule(() => this.#execute());
+    return job.jobId;
+  }
+
+  /**
+   * Applies the overflow policy when the queue holds `maxQueueSize` jobs.
+   */
+  #makeRoom(): void {
+    const max = this.#options.maxQueueSize;
+    if(typeof max !== 'number') return;
+
+    while(this.#store.size >= max) {
+      if(this.#options.overflow !== 'drop-oldest') {
+        throw new Exception(`EventLoop queue is full (${max} jobs)`);
+      }
+
+      const oldest = this.#oldest();
+      if(!oldest) return;
+
+      if(!this.cancel(oldest.jobId, 'Dropped from a full queue')) {
+        this.#remove(oldest.jobId);
+      }
+    }
+  }
+
+  /**
+   * Takes the waiting job queued first out of the age index, skipping the jobs that left the store.
+   */
+  #oldest(): Job<T> | null {
+    for(let job = this.#byAge.pop(); job; job = this.#byAge.pop()) {
+      if(this.#queued.has(job.jobId)) return job;
+    }
+
+    return null;
+  }
+
+  /**
+   * Adds a tree of jobs. Every job is queued once its children have finished,
+   * and receives their results in `childResults`.
+   * 
+   * @param flow The root job of the tree.
+   * @returns The ids of the added jobs, in the shape of the tree.
+   * @throws {Exception} If the event loop is stopping.
+   */
+  public addFlow(flow: FlowJob<T>): FlowNode {
+    if(this.#stopping) {
+      throw new Exception('EventLoop is stopping and does not accept new jobs');
+    }
+
+    const children = (flow.children ?? []).map(child => this.addFlow(child));
+
+    const dependsOn: JobDependency[] = [
+      ...(flow.options?.dependsOn ?? []),
+      ...children.map((node, index) => ({
+        jobId: node.jobId,
+        onFailure: flow.children![index].onFailure,
+      })),
+    ];
+
+    return {
+      jobId: this.add(flow.data, flow.type, { ...flow.options, dependsOn }),
+      children,
+    };
+  }
+
+  /**
+   * Holds a job outside of the queue until its dependencies have finished.
+   */
+  #park(job: Job<T>): void {
+    const pending: Map<string, ChildFailurePolicy> = new Map();
+
+    for(const dependency of job.options.dependsOn!) {
+      const { jobId, onFailure } = typeof dependency === 'string' ? { jobId: dependency, onFailure: undefined } : dependency;
+
+      if(!this.#jobs.has(jobId)) {
+        throw new Exception(`Unknown dependency '${jobId}'`);
+      }
+
+      pending.set(jobId, onFailure ?? 'fail');
+    }
+
+    const parked: ParkedJob<T> = {
+      job: Object.assign(job, { childResults: {}, childFailures: {} }),
+      pending,
+    };
+
+    this.#parked.set(job.jobId, parked);
+    this.#track(job, 'waiting-children');
+
+    for(const jobId of pending.keys()) {
+      if(!this.#dependents.has(jobId)) {
+        this.#dependents.set(jobId, new Set());
+      }
+
+      this.#dependents.get(jobId)!.add(job.jobId);
+    }
+
+    // Dependencies may have finished already
+    for(const jobId of [...pending.keys()]) {
+      const entry = this.#jobs.get(jobId)!;
+
+      if(FINISHED_STATES.includes(entry.state)) {
+        this.#settleDependents(entry);
+      }
+    }
+  }
+
+  #unpark(jobId: string): ParkedJob<T> | undefined {
+    const parked = this.#parked.get(jobId);
+    if(!parked) return undefined;
+
+    this.#parked.delete(jobId);
+
+    for(const dependency of parked.pending.keys()) {
+      const dependents = this.#dependents.get(dependency);
+      dependents?.delete(jobId);
+
+      if(dependents?.size === 0) {
+        this.#dependents.delete(dependency);
+      }
+    }
+
+    return parked;
+  }
+
+  /**
+   * Hands the outcome of a finished job to `waitFor`, the consumers of `results` and the jobs depending on it.
+   */
+  #publish(entry: JobEntry<T, R, E>): void {
+    const waiters = this.#jobWaiters.get(entry.job.jobId) ?? [];
+    this.#jobWaiters.delete(entry.job.jobId);
+
+    for(const deferred of waiters) {
+      if(entry.state === 'completed') {
+        deferred.resolve(entry.result as R);
+      } else {
+        deferred.reject(entry.error);
+      }
+    }
+
+    if(entry.state === 'completed' || entry.state === 'failed') {
+      const outcome: JobOutcome<T, R, E> = entry.state === 'completed' ?
+        { status: 'completed', job: this.#snapshot(entry), result: entry.result as R } :
+        { status: 'failed', job: this.#snapshot(entry), error: entry.error as E };
+
+      for(const consumer of this.#consumers) {
+        if(consumer.pending) {
+          consumer.pending.resolve({ done: false, value: outcome });
+          consumer.pending = void 0;
+        } else {
+          consumer.buffer.push(outcome);
+        }
+      }
+    }
+
+    this.#settleDependents(entry);
+  }
+
+  /**
+   * Hands the outcome of a finished job to the jobs depending on it.
+   */
+  #settleDependents(entry: JobEntry<T, R, E>): void {
+    const dependents = this.#dependents.get(entry.job.jobId);
+    if(!dependents) return;
+
+    const { jobId } = entry.job;
+
+    for(const parentId of [...dependents]) {
+      const parked = this.#parked.get(parentId);
+      const policy = parked?.pending.get(jobId);
+
+      if(!parked || !policy) continue;
+
+      parked.pending.delete(jobId);
+      dependents.delete(parentId);
+
+      if(entry.state === 'completed') {
+        (parked.job.childResults as Record<string, unknown>)[jobId] = entry.result;
+      } else if(policy === 'fail') {
+        const parent = this.#jobs.get(parentId)!;
+        this.#unpark(parentId);
+
+        const error = new Exception(
+          `Job ${parentId} failed because its dependency ${jobId} ${entry.state === 'failed' ? 'failed' : `was ${entry.state}`}`,
+          { dependency: jobId },
+        );
+
+        // The context object skips `cause`, so it is set afterwards
+        error.cause = entry.error;
+
+        this.#fail(parked.job, parent, error);
+
+        continue;
+      } else {
+        (parked.job.childFailures as Record<string, unknown>)[jobId] = entry.error;
+      }
+
+      if(parked.pending.size === 0 || (entry.state !== 'completed' && policy === 'continue')) {
+        this.#unpark(parentId);
+
+        try {
+          this.#makeRoom();
+        } catch (err) {
+          this.#fail(parked.job, this.#jobs.get(parentId)!, err);
+          continue;
+        }
+
+        this.#enqueue(parked.job);
+        this.#setState(parentId, this.#waitingState(parked.job));
+
+        EventLoop.schedule(() => this.#execute());
+      }
+    }
+
+    if(dependents.size === 0) {
+      this.#dependents.delete(jobId);
+    }
+  }
+
+  #addRepeatable(context: T, type: string | undefined, options: JobOptions): string {
+    const { repeat, ...jobOptions } = options as JobOptions & { repeat: RepeatOptions };
+
+    if(!repeat.cron && !(typeof repeat.every === 'number' && repeat.every > 0)) {
+      throw new Exception('A repeatable job requires either a positive `every` or a `cron` expression');
+    }
+
+    const key = repeat.key ?? [type ?? '', repeat.cron ?? `every:${repeat.every}`, repeat.utcOffset ?? ''].join(':');
+    this.removeRepeatable(key);
+
+    const entry: RepeatEntry<T> = {
+      key,
+      data: context,
+      messageType: type,
+      options: jobOptions,
+      repeat: { ...repeat },
+      cron: repeat.cron ? CronExpression.parse(repeat.cron, { utcOffset: repeat.utcOffset }) : undefined,
+      count: 0,
+      next: null,
+    };
+
+    entry.next = this.#nextOccurrence(entry, Date.now());
+    this.#repeatables.set(key, entry);
+
+    if(this.#running) {
+      this.#arm(entry);
+    }
+
+    return key;
+  }
+
+  #nextOccurrence(entry: RepeatEntry<T>, from: number): number | null {
+    if(entry.cron) return entry.cron.next(from)?.getTime() ?? null;
+    return from + entry.repeat.every!;
+  }
+
+  #arm(entry: RepeatEntry<T>): void {
+    clearTimeout(entry.timer);
+    if(entry.next === null) return;
+
+    if(entry.next < Date.now()) {
+      entry.next = this.#nextOccurrence(entry, Date.now());
+      if(entry.next === null) return;
+    }
+
+    const delay = entry.next - Date.now();
+
+    entry.timer = setTimeout(() => {
+      entry.timer = void 0;
+
+      if(delay > MAX_TIMEOUT) {
+        this.#arm(entry);
+      } else {
+        this.#repeat(entry);
+      }
+    }, Math.min(delay, MAX_TIMEOUT));
+  }
+
+  #repeat(entry: RepeatEntry<T>): void {
+    if(!this.#stopping) {
+      try {
+        this.add(entry.data, entry.messageType, entry.options);
+        entry.count++;
+      } catch {
+        // The occurrence is skipped when the queue is full
+      }
+    }
+
+    if(typeof entry.repeat.limit === 'number' && entry.count >= entry.repeat.limit) {
+      this.#repeatables.delete(entry.key);
+      return;
+    }
+
+    let next = this.#nextOccurrence(entry, entry.next ?? Date.now());
+
+    // Skip the occurrences missed while the process was busy
+    while(next !== null && next <= Date.now()) {
+      next = this.#nextOccurrence(entry, next);
+    }
+
+    entry.next = next;
+    this.#arm(entry);
+  }
+
+  #disarm(): void {
+    for(const entry of this.#repeatables.values()) {
+      clearTimeout(entry.timer);
+      entry.timer = void 0;
+    }
+  }
+
+  /**
+   * Lists the repeatable jobs.
+   * 
+   * @returns The repeatable jobs and their next occurrence.
+   */
+  public listRepeatable(): RepeatableJob[] {
+    return [...this.#repeatables.values()].map(entry => ({
+      key: entry.key,
+      messageType: entry.messageType,
+      every: entry.repeat.every,
+      cron: entry.repeat.cron,
+      utcOffset: entry.repeat.utcOffset,
+      limit: entry.repeat.limit,
+      count: entry.count,
+      next: entry.next,
+    }));
+  }
+
+  /**
+   * Removes a repeatable job. Occurrences already in the queue are not affected.
+   * 
+   * @param key The key of the repeatable job.
+   * @returns True if the repeatable job was removed, false if it is unknown.
+   */
+  public removeRepeatable(key: string): boolean {
+    const entry = this.#repeatables.get(key);
+    if(!entry) return false;
+
+    clearTimeout(entry.timer);
+    return this.#repeatables.delete(key);
+  }
+
+  #track(job: Job<T>, state: JobState): JobEntry<T, R, E> {
+    const entry: JobEntry<T, R, E> = { job, state, logs: [], stalls: 0 };
+    this.#jobs.set(job.jobId, entry);
+
+    // A finished job with the same id is replaced, so its eviction must not remove this one
+    this.#finished.delete(job.jobId);
+
+    const key = job.options.dedupeKey ?? job.options.jobId;
+
+    if(key) {
+      clearTimeout(this.#dedupe.get(key)?.timer);
+      this.#dedupe.set(key, { jobId: job.jobId });
+    }
+
+    return entry;
+  }
+
+  #waitingState(job: Job<T>): JobState {
+    return this.#readyIn(job) > 0 ? 'delayed' : 'waiting';
+  }
+
+  /**
+   * Computes the time left before a job can run, on its delay or on the backoff of its last attempt.
+   */
+  #readyIn(job: Job<T>): number {
+    if(typeof job.availableAt === 'number') return job.availableAt - Date.now();
+    return job.attemptsMade === 0 ? job.queuedAt + (job.options.delay ?? 0) - Date.now() : 0;
+  }
+
+  #finish(entry: JobEntry<T, R, E>, state: 'completed' | 'failed' | 'cancelled' | 'expired'): void {
+    entry.state = state;
+    entry.finishedAt = Date.now();
+
+    this.#releaseKey(entry);
+    this.#finished.add(entry.job.jobId);
+
+    for(const jobId of this.#finished) {
+      if(this.#finished.size <= (this.#options.maxFinishedJobs ?? 1000)) break;
+
+      this.#finished.delete(jobId);
+      this.#jobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Frees the deduplication key of a finished job, after its TTL when it completed.
+   */
+  #releaseKey(entry: JobEntry<T, R, E>): void {
+    const key = entry.job.options.dedupeKey ?? entry.job.options.jobId;
+    const claim = key ? this.#dedupe.get(key) : undefined;
+
+    if(!claim || claim.jobId !== entry.job.jobId) return;
+
+    const ttl = entry.job.options.dedupeTtl ?? 0;
+
+    if(entry.state !== 'completed' || !(ttl > 0)) {
+      this.#dedupe.delete(key!);
+      return;
+    }
+
+    claim.timer = setTimeout(() => {
+      if(this.#dedupe.get(key!) === claim) {
+        this.#dedupe.delete(key!);
+      }
+    }, Math.min(ttl, MAX_TIMEOUT));
+
+    claim.timer.unref?.();
+  }
+
+  #emit<K extends keyof EventLoopDefaultEventsMap<T, R, E>>(event: K, e: EventLoopDefaultEventsMap<T, R, E>[K]): void {
+    if(this.#disposed) return;
+    this.#ee.emit(event, e);
+  }
+
+  #handlerOf(job: Job<T>): (HandlerEntry<T> & { slot: string | symbol }) | null {
+    if(typeof job.messageType === 'string' && this.#handlers.has(job.messageType)) {
+      return { ...this.#handlers.get(job.messageType)!, slot: job.messageType };
+    }
+
+    if(typeof this.#eventLoopQueueProcessor !== 'function') return null;
+
+    return {
+      handler: this.#eventLoopQueueProcessor,
+      concurrency: this.#fallbackConcurrency(),
+      batchSize: Math.floor(this.#options.batch?.maxSize ?? 1),
+      limiter: this.#fallbackLimiter,
+      slot: FALLBACK_HANDLER,
+    };
+  }
+
+  #fallbackConcurrency(): number {
+    // Each batch can hold up to `maxSize` running jobs
+    return (this.#options.concurrency || 1) * Math.floor(this.#options.batch?.maxSize ?? 1);
+  }
+
+  #limiterOf(job: Job<T>): RateLimiter | undefined {
+    if(typeof job.messageType !== 'string') return undefined;
+    return this.#handlers.get(job.messageType)?.limiter ?? this.#typeLimiters.get(job.messageType);
+  }
+
+  #wakeIn(delay: number): void {
+    const at = Date.now() + delay;
+    if(this.#wakeTimer && this.#wakeTimer.at <= at) return;
+
+    clearTimeout(this.#wakeTimer?.timeout);
+
+    this.#wakeTimer = {
+      at,
+      timeout: setTimeout(() => {
+        this.#wakeTimer = void 0;
+        this.#execute();
+      }, delay),
+    };
+  }
+
+  #sleep(): void {
+    clearTimeout(this.#wakeTimer?.timeout);
+    this.#wakeTimer = void 0;
+  }
+
+  #execute(): void {
+    if(!this.#running) return;
+    if(this.#paused || this.#stopping) return;
+
+    // Hold back the jobs bound for a processing function while a consumer of `results` is lagging behind
+    const lagging = [...this.#consumers].some(consumer => consumer.buffer.length >= consumer.capacity);
+
+    const running: Map<string | symbol, number> = new Map();
+    const groupRunning: Map<string, number> = new Map();
+
+    for(const job of this.#executing) {
+      const slot = this.#handlerOf(job)?.slot;
+      const group = job.options.group ?? DEFAULT_GROUP;
+
+      if(slot) {
+        running.set(slot, (running.get(slot) ?? 0) + 1);
+      }
+
+      groupRunning.set(group, (groupRunning.get(group) ?? 0) + 1);
+    }
+
+    const now = Date.now();
+
+    // Jobs without a handler fail right away, expired jobs are discarded and delayed jobs
+    // are only deferred, so they do not take a slot
+    const isExempt = (job: Job<T>): boolean =>
+      !this.#handlerOf(job) || this.#deadlineOf(job) <= now || this.#waitingState(job) === 'delayed';
+
+    const hasCapacity = (job: Job<T>): boolean => {
+      const entry = this.#handlerOf(job)!;
+      if(lagging || (running.get(entry.slot) ?? 0) >= entry.concurrency) return false;
+
+      const delay = Math.max(this.#limiter.delay(now), this.#limiterOf(job)?.delay(now) ?? 0);
+      if(delay <= 0) return true;
+
+      this.#wakeIn(delay);
+
+      if(!this.#rateLimited.has(entry.slot)) {
+        this.#rateLimited.add(entry.slot);
+        this.#emit('limited', new RateLimitedEvent({ ...job, delay }));
+      }
+
+      return false;
+    };
+
+    const hasRoom = (group: string): boolean => {
+      const concurrency = this.#groups.get(group)?.concurrency;
+      return typeof concurrency !== 'number' || (groupRunning.get(group) ?? 0) < concurrency;
+    };
+
+    for(;;) {
+      const job = this.#reserveFairly({ isExempt, hasCapacity, hasRoom });
+      if(!job) break;
+
+      if(this.#deadlineOf(job) <= Date.now()) {
+        this.#expire(job);
+        continue;
+      }
+
+      const readyIn = this.#readyIn(job);
+
+      if(readyIn > 0) {
+        // Delayed jobs wait outside of the concurrency slots
+        this.#defer(job, readyIn);
+        continue;
+      }
+
+      const slot = this.#handlerOf(job)?.slot;
+
+      if(slot) {
+        running.set(slot, (running.get(slot) ?? 0) + 1);
+
+        this.#limiter.acquire(now);
+        this.#limiterOf(job)?.acquire(now);
+        this.#rateLimited.delete(slot);
+      }
+
+      const group = job.options.group ?? DEFAULT_GROUP;
+      groupRunning.set(group, (groupRunning.get(group) ?? 0) + 1);
+
+      this.#executing.push(job);
+      EventLoop.schedule(() => this.#process(job));
+    }
+
+    this.#notify();
+  }
+
+  #groupOf(name: string): GroupState {
+    if(!this.#groups.has(name)) {
+      this.#groups.set(name, { weight: 1, paused: false, configured: false });
+    }
+
+    return this.#groups.get(name)!;
+  }
+
+  #enqueue(job: Job<T>): void {
+    this.#store.enqueue(job);
+    this.#queueTurn(job);
+    this.#queue(job);
+  }
+
+  #requeue(job: Job<T>): void {
+    this.#store.nack(job);
+    this.#queueTurn(job);
+    this.#queue(job);
+  }
+
+  #remove(jobId: string): Job<T> | undefined {
+    this.#queued.delete(jobId);
+    return this.#store.remove(jobId);
+  }
+
+  #queue(job: Job<T>): void {
+    this.#queued.add(job.jobId);
+    if(this.#options.overflow !== 'drop-oldest') return;
+
+    // Entries of jobs that left the store are only dropped when popped, so they are pruned once they pile up
+    if(this.#byAge.size() > 2 * this.#queued.size + 64) {
+      this.#byAge.clear();
+
+      for(const item of this.#store.list('waiting')) {
+        this.#byAge.push(item, -item.queuedAt);
+      }
+
+      return;
+    }
+
+    this.#byAge.push(job, -job.queuedAt);
+  }
+
+  /**
+   * Gives the group of a job a turn in the lane of its message type, unless it already has one.
+   */
+  #queueTurn(job: Job<T>): void {
+    const partition = partitionOf(job);
+    let lane = this.#lanes.get(job.messageType);
+
+    if(!lane) {
+      lane = new Map();
+      this.#lanes.set(job.messageType, lane);
+    }
+
+    if(!lane.has(partition)) {
+      lane.set(partition, { group: job.options.group ?? DEFAULT_GROUP, credit: 0 });
+    }
+  }
+
+  /**
+   * Reserves the next job. In the lane of each message type the groups take turns, a group
+   * keeping its turn for `weight` jobs in a row; the next jobs of the lanes are then compared
+   * by priority and insertion order.
+   *
+   * A reservation does not depend on the number of waiting jobs: it looks at one partition
+   * per message type, plus the partitions of the groups it skips because they are paused
+   * or at their concurrency, and then takes the job in O(log n) from its partition.
+   */
+  #reserveFairly(filter: DispatchFilter<T>): Job<T> | null {
+    const candidates: Map<string, Map<string, Turn>> = new Map();
+
+    for(const [type, lane] of this.#lanes) {
+      if(type !== undefined && this.#pausedTypes.has(type)) continue;
+
+      let open: boolean | undefined;
+
+      for(const [partition, turn] of lane) {
+        const head = this.#store.peek(partition);
+
+        // Turns outlive the jobs removed from the store, e.g. when cancelled
+        if(!head) {
+          lane.delete(partition);
+          continue;
+        }
+
+        if(this.#groups.get(turn.group)?.paused) continue;
+
+        if(filter.isExempt(head)) {
+          candidates.set(partition, lane);
+          break;
+        }
+
+        // The jobs of a lane share their handler, so the first one tells whether the handler has room
+        if(open === undefined) {
+          open = filter.hasCapacity(head);
+        }
+
+        if(!open) break;
+
+        if(filter.hasRoom(turn.group)) {
+          candidates.set(partition, lane);
+          break;
+        }
+      }
+
+      if(lane.size === 0) {
+        this.#lanes.delete(type);
+      }
+    }
+
+    const job = candidates.size > 0 ? this.#store.reserve(candidates.keys()) : null;
+    if(!job) return null;
+
+    this.#queued.delete(job.jobId);
+
+    const partition = partitionOf(job);
+    const lane = candidates.get(partition)!;
+    const turn = lane.get(partition)!;
+
+    if(!this.#store.peek(partition)) {
+      lane.delete(partition);
+    } else if(++turn.credit >= (this.#groups.get(turn.group)?.weight ?? 1)) {
+      // The group hands its turn over by moving to the back of the lane
+      turn.credit = 0;
+
+      lane.delete(partition);
+      lane.set(partition, turn);
+    }
+
+    return job;
+  }
+
+  /**
+   * Computes the time before which a job must start, `Infinity` once it started.
+   */
+  #deadlineOf(job: Job<T>): number {
+    if(job.attemptsMade > 0) return Infinity;
+
+    const { ttl, expiresAt } = job.options;
+    const deadline = typeof ttl === 'number' && ttl > 0 ? job.queuedAt + ttl : Infinity;
+
+    return Math.min(deadline, typeof expiresAt === 'number' ? expiresAt : Infinity);
+  }
+
+  #expire(job: Job<T>): void {
+    const entry = this.#jobs.get(job.jobId) ?? this.#track(job, 'waiting');
+
+    this.#store.ack(job.jobId);
+
+    entry.error = new Exception(`Job ${job.jobId} expired before it started`) as E;
+    this.#finish(entry, 'expired');
+
+    this.#emit('expired', new ExpiredEvent({
+      ...job,
+      expiresAt: this.#deadlineOf(job),
+    }));
+
+    this.#publish(entry);
+  }
+
+  #process(job: Writable<Job<T>>): void {
+    const entry = this.#jobs.get(job.jobId) ?? this.#track(job, 'waiting');
+
+    if(entry.state === 'cancelled') {
+      this.#release(job);
+      this.#notify();
+
+      return;
+    }
+
+    if(!this.#running || this.#stopping || this.#pausedTypes.has(job.messageType ?? '')) {
+      // The job has not started yet, so it goes back to the queue
+      this.#release(job);
+      this.#requeue(job);
+      this.#notify();
+
+      return;
+    }
+
+    const handler = this.#handlerOf(job)?.handler;
+
+    if(!handler) {
+      this.#release(job);
+      this.#store.ack(job.jobId);
+      this.#fail(job, entry, new Exception(`No handler registered for message type '${job.messageType}'`));
+
+      EventLoop.schedule(() => this.#execute());
+      this.#notify();
+
+      return;
+    }
+
+    if(typeof entry.startedAt !== 'number') {
+      this.#metrics.wait(Date.now() - job.queuedAt - (job.options.delay ?? 0));
+    }
+
+    job.attemptsMade++;
+    entry.state = 'active';
+    entry.startedAt = Date.now();
+
+    const ac = new AbortController();
+
+    // A stalled run is not counted as an attempt, so each run is told apart by its controller
+    const isCurrent = () => entry.state === 'active' && this.#controllers.get(job.jobId) === ac;
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    let stalled = false;
+
+    const lease: Lease = {
+      expiresAt: Date.now() + (this.#options.stalled?.lease ?? 0),
+      stall: () => {
+        stalled = true;
+        this.#leases.delete(job.jobId);
+
+        ac.abort(new Exception(`Job ${job.jobId} stalled`));
+      },
+    };
+
+    const heartbeat = () => {
+      if(!isCurrent() || !this.#options.stalled) return;
+      lease.expiresAt = Date.now() + this.#options.stalled.lease;
+    };
+
+    const helpers: JobContext = {
+      updateProgress: value => {
+        if(!isCurrent()) return;
+
+        heartbeat();
+        entry.progress = value;
+        this.#emit('progress', new JobProgressEvent({ ...job, progress: value }));
+      },
+      log: message => {
+        if(!isCurrent()) return;
+
+        heartbeat();
+        entry.logs.push(message);
+      },
+      heartbeat,
+    };
+
+    this.#controllers.set(job.jobId, ac);
+
+    if(this.#options.stalled) {
+      this.#leases.set(job.jobId, lease);
+      this.#watch();
+    }
+
+    if(job.options.timeout && job.options.timeout > 0) {
+      timeoutId = setTimeout(() => {
+        ac.abort(new Error(`Timeout of ${job.options.timeout}ms exceeded`));
+      }, job.options.timeout);
+    }
+
+    Promise.race([
+      asPromise(() => handler(job, ac.signal, helpers)),
+      new Promise((_, reject) => {
+        ac.signal.addEventListener('abort', () => reject(ac.signal.reason), { once: true });
+      }),
+    ]).then(result => {
+      if(this.#disposed) return;
+
+      this.#metrics.processing(Date.now() - entry.startedAt!);
+      this.#release(job);
+      if(entry.state === 'cancelled') return;
+
+      this.#store.ack(job.jobId);
+
+      entry.result = result;
+      this.#finish(entry, 'completed');
+      this.#metrics.outcome(job.messageType, false);
+
+      this.#emit('completed', new CompletedEvent({
+        ...job,
+        result,
+      }));
+
+      this.#publish(entry);
+    }).catch(err => {
+      if(this.#disposed) return;
+
+      if(typeof err !== 'object' || isPlainObject(err)) {
+        err = new Error(typeof err === 'object' ? err.message ?? err : err);
+      }
+
+      this.#metrics.processing(Date.now() - entry.startedAt!);
+      this.#release(job);
+      if(entry.state === 'cancelled') return;
+
+      if(stalled) {
+        this.#stall(job, entry);
+        return;
+      }
+
+      // A run aborted by `stop` goes back to the queue without using up an attempt
+      if(this.#stopping && err instanceof CanceledError && err === ac.signal.reason) {
+        job.attemptsMade--;
+
+        this.#setState(job.jobId, 'waiting');
+        this.#requeue(job);
+
+        return;
+      }
+
+      if(job.attemptsMade < (job.options.attempts || 1)) {
+        const delay = computeBackoff(job.options.backoff, job.attemptsMade, err);
+
+        this.#emit('retrying', new RetryingEvent({
+          ...job,
+          attempt: job.attemptsMade,
+          error: err,
+          delay,
+        }));
+
+        this.#retry(job, delay);
+        return;
+      }
+
+      this.#store.ack(job.jobId);
+      this.#fail(job, entry, err);
+    }).finally(() => {
+      clearTimeout(timeoutId);
+
+      if(this.#controllers.get(job.jobId) === ac) {
+        this.#controllers.delete(job.jobId);
+      }
+
+      if(this.#leases.get(job.jobId) === lease) {
+        this.#leases.delete(job.jobId);
+      }
+
+      if(this.#leases.size === 0) {
+        this.#unwatch();
+      }
+
+      EventLoop.schedule(() => this.#execute());
+      this.#notify();
+    });
+  }
+
+  /**
+   * Moves a job whose lease expired back to the queue, or fails it once it stalled too many times.
+   */
+  #stall(job: Writable<Job<T>>, entry: JobEntry<T, R, E>): void {
+    const maxStalls = this.#options.stalled?.maxStalls ?? 1;
+    entry.stalls++;
+
+    this.#emit('stalled', new StalledEvent({
+      ...job,
+      stalls: entry.stalls,
+    }));
+
+    if(entry.stalls > maxStalls) {
+      this.#store.ack(job.jobId);
+      this.#fail(job, entry, new Exception(`Job ${job.jobId} stalled more than ${maxStalls} time(s)`));
+
+      return;
+    }
+
+    // A stalled run does not count as an attempt
+    job.attemptsMade--;
+
+    this.#setState(job.jobId, 'waiting');
+    this.#requeue(job);
+  }
+
+  #watch(): void {
+    if(this.#watchdog || !this.#options.stalled) return;
+
+    const { lease, interval } = this.#options.stalled;
+
+    this.#watchdog = setInterval(() => {
+      const now = Date.now();
+
+      for(const item of [...this.#leases.values()]) {
+        if(item.expiresAt <= now) {
+          item.stall();
+        }
+      }
+    }, Math.max(1, interval ?? Math.ceil(lease / 2)));
+  }
+
+  #unwatch(): void {
+    clearInterval(this.#watchdog);
+    this.#watchdog = void 0;
+  }
+
+  #fail(job: Job<T>, entry: JobEntry<T, R, E>, err: any): void {
+    entry.error = err;
+    this.#finish(entry, 'failed');
+    this.#metrics.outcome(job.messageType, true);
+
+    this.#deadLetters?.add({
+      job: { ...job },
+      error: err,
+      attemptsMade: job.attemptsMade,
+      queuedAt: job.queuedAt,
+      failedAt: Date.now(),
+    });
+
+    this.#emit('failed', new FailedEvent({
+      ...job,
+      error: err,
+    }));
+
+    this.#publish(entry);
+  }
+
+  #retry(job: Writable<Job<T>>, delay: number): void {
+    if(this.#disposed) return;
+
+    if(delay > 0) {
+      // Kept on the job, so the backoff outlasts a stop or a restart of a persistent store
+      job.availableAt = Date.now() + delay;
+    }
+
+    if(this.#stopping || delay <= 0) {
+      this.#setState(job.jobId, 'waiting');
+      this.#requeue(job);
+
+      return;
+    }
+
+    this.#defer(job, delay);
+  }
+
+  /**
+   * Holds a reserved job for a while before moving it back to the queue.
+   */
+  #defer(job: Job<T>, delay: number): void {
+    this.#setState(job.jobId, 'delayed');
+
+    this.#timers.set(job.jobId, {
+      job,
+      timeout: setTimeout(() => {
+        this.#timers.delete(job.jobId);
+        this.#setState(job.jobId, 'waiting');
+        this.#requeue(job);
+
+        EventLoop.schedule(() => this.#execute());
+      }, delay),
+    });
+  }
+
+  #setState(jobId: string, state: JobState): void {
+    const entry = this.#jobs.get(jobId);
+
+    if(entry) {
+      entry.state = state;
+    }
+  }
+
+  #release(job: Job<T>): void {
+    const index = this.#executing.findIndex(j => j.jobId === job.jobId);
+
+    if(index > -1) {
+      this.#executing.splice(index, 1);
+    }
+  }
+
+  /**
+   * Moves every job waiting on a delay or backoff timer back to the queue.
+   */
+  #flushTimers(): void {
+    for(const { timeout, job } of this.#timers.values()) {
+      clearTimeout(timeout);
+
+      this.#release(job);
+      this.#setState(job.jobId, this.#waitingState(job));
+      this.#requeue(job);
+    }
+
+    this.#timers.clear();
+  }
+
+  #abortAll(reason: unknown): void {
+    for(const ac of this.#controllers.values()) {
+      ac.abort(reason);
+    }
+  }
+
+  #until(predicate: () => boolean): Promise<void> {
+    if(predicate()) return Promise.resolve();
+
+    const deferred = new Deferred<void>();
+    this.#waiters.push({ predicate, deferred });
+
+    return deferred.promise;
+  }
+
+  #notify(): void {
+    for(const waiter of [...this.#waiters]) {
+      if(!waiter.predicate()) continue;
+
+      this.#waiters.splice(this.#waiters.indexOf(waiter), 1);
+      waiter.deferred.resolve();
+    }
+  }
+
+  /**
+   * Registers the processing function for a message type, with its own concurrency limit.
+   * 
+   * @param type The message type handled by the function.
+   * @param handler The processing function to be executed for each job of this type, a batch processing
+   *                function when `options.batch` is set, or the path of a module whose processing function
+   *                runs in a pool of worker threads (started on the first job of the type) with the same
+   *                `(job, signal, helpers)` arguments.
+   * @param options Additional options for the handler.
+   */
+  public process(type: string, handler: ProcessFn<T> | BatchProcessFn<T> | string, options?: ProcessOptions): void {
+    if(typeof handler !== 'function' && typeof handler !== 'string') {
+      throw new TypeError(`[${typeof handler}] Expected \`handler\` as a function or a module path`);
+    }
+
+    if(options?.batch && typeof handler !== 'function') {
+      throw new TypeError('Batch processing requires `handler` as a function');
+    }
+
+    const concurrency = Math.max(1, options?.concurrency ?? 1);
+    const pool = typeof handler === 'string' ? new WorkerPool(handler, { size: concurrency }) : undefined;
+
+    // Each batch can hold up to `maxSize` running jobs
+    const batchSize = options?.batch ? Math.floor(options.batch.maxSize) : 1;
+
+    if(options?.batch) {
+      handler = batchProcessor(handler as BatchProcessFn<T>, options.batch);
+    }
+
+    this.#handlers.get(type)?.pool?.dispose();
+
+    const limiter = new RateLimiter(options?.limiter);
+
+    // Keep a manual hold placed on the type before its handler was registered
+    const previous = this.#typeLimiters.get(type);
+    const blocked = previous?.delay() ?? 0;
+
+    if(blocked > 0) {
+      limiter.block(blocked);
+    }
+
+    this.#typeLimiters.delete(type);
+
+    this.#handlers.set(type, {
+      handler: pool ? this.#runInPool(pool) : handler as ProcessFn<T>,
+      concurrency: concurrency * batchSize,
+      batchSize,
+      limiter,
+      pool,
+    });
+
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Changes the concurrency of the handler of a message type, keeping its rate limiter.
+   * Jobs already running are not affected.
+   * 
+   * @param type The message type of the handler.
+   * @param concurrency The number of jobs (or batches in batch mode) run at the same time.
+   * @throws {Exception} If no handler is registered for the type or it runs in worker threads.
+   */
+  public setConcurrency(type: string, concurrency: number): void {
+    const entry = this.#handlers.get(type);
+
+    if(!entry) {
+      throw new Exception(`No handler registered for message type '${type}'`);
+    }
+
+    if(entry.pool) {
+      throw new Exception(`The concurrency of message type '${type}' is fixed by its worker pool`);
+    }
+
+    this.#handlers.set(type, { ...entry, concurrency: Math.max(1, concurrency) * entry.batchSize });
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Unregisters the handler of a message type. Jobs already running are not affected,
+   * and the other jobs of the type are left to the function given to `start`.
+   * 
+   * @param type The message type of the handler.
+   * @returns True if a handler was registered for the type.
+   */
+  public removeHandler(type: string): boolean {
+    const entry = this.#handlers.get(type);
+    if(!entry) return false;
+
+    entry.pool?.dispose();
+    this.#handlers.delete(type);
+
+    EventLoop.schedule(() => this.#execute());
+    return true;
+  }
+
+  /**
+   * Pauses the dispatch of the jobs of a message type, whether it has a handler or not.
+   * Other message types are not affected.
+   * 
+   * @param type The message type.
+   */
+  public pauseType(type: string): void {
+    this.#pausedTypes.add(type);
+  }
+
+  /**
+   * Resumes the dispatch of the jobs of a message type after a call to `pauseType`.
+   * 
+   * @param type The message type.
+   */
+  public resumeType(type: string): void {
+    if(!this.#pausedTypes.delete(type)) return;
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Checks if the dispatch of the jobs of a message type is paused.
+   * 
+   * @param type The message type.
+   */
+  public isTypePaused(type: string): boolean {
+    return this.#pausedTypes.has(type);
+  }
+
+  /**
+   * Holds back the dispatch of jobs for a while, e.g. after a `429 Too Many Requests` response.
+   * 
+   * @param duration The time (in milliseconds) to hold back the dispatch.
+   * @param type Optional message type to hold back; every job is held back when omitted.
+   */
+  public rateLimit(duration: number, type?: string): void {
+    if(!(duration > 0)) return;
+
+    if(typeof type !== 'string') {
+      this.#limiter.block(duration);
+    } else if(this.#handlers.has(type)) {
+      this.#handlers.get(type)!.limiter.block(duration);
+    } else {
+      if(!this.#typeLimiters.has(type)) {
+        this.#typeLimiters.set(type, new RateLimiter());
+      }
+
+      this.#typeLimiters.get(type)!.block(duration);
+    }
+
+    this.#wakeIn(duration);
+  }
+
+  #runInPool(pool: WorkerPool): ProcessFn<T> {
+    return (job, signal, helpers) => {
+      // Functions cannot be structured-cloned to the worker
+      const options = { ...job.options, backoff: typeof job.options.backoff === 'function' ? undefined : job.options.backoff };
+
+      return pool.run({ ...job, options }, {
+        signal,
+        onProgress: helpers.updateProgress,
+        onLog: helpers.log,
+        onHeartbeat: helpers.heartbeat,
+      });
+    };
+  }
+
+  /**
+   * Starts the event loop, processing jobs asynchronously.
+   * 
+   * @param fn The fallback processing function, executed for jobs whose message type has no handler,
+   *           a batch processing function when the `batch` option is set, or the path of a module
+   *           whose processing function runs in a pool of worker threads.
+   * @returns A promise that resolves when the event loop is stopped.
+   * @throws {Exception} If the event loop is already processing.
+   */
+  public start(fn?: ProcessFn<T> | BatchProcessFn<T> | string): Promise<void> {
+    if(this.#running) {
+      throw new Exception('SyncQueue is already processing');
+    }
+
+    if(this.#options.batch && typeof fn === 'string') {
+      throw new TypeError('Batch processing requires `fn` as a function');
+    }
+
+    if(this.#options.batch && typeof fn === 'function') {
+      fn = batchProcessor(fn as BatchProcessFn<T>, this.#options.batch);
+    } else if(typeof fn === 'string') {
+      this.#eventLoopQueuePool = new WorkerPool(fn, { size: this.#options.concurrency || 1 });
+      fn = this.#runInPool(this.#eventLoopQueuePool);
+    }
+
+    this.#running = true;
+    this.#eventLoopQueueProcessor = fn as ProcessFn<T> | undefined;
+    EventLoop.schedule(() => this.#execute());
+
+    for(const entry of this.#repeatables.values()) {
+      this.#arm(entry);
+    }
+
+    if(this.#options.metricsInterval && this.#options.metricsInterval > 0) {
+      clearInterval(this.#metricsTimer);
+
+      this.#metricsTimer = setInterval(() => {
+        this.#emit('metrics', new MetricsEvent(this.getMetrics()));
+      }, this.#options.metricsInterval);
+
+      this.#metricsTimer.unref?.();
+    }
+
+    this.#emit('processing', new ProcessingEvent(this));
+
+    this.#stopPromise = new Deferred<void>();
+    return this.#stopPromise.promise;
+  }
+
+  /**
+   * Pauses the dispatch of new jobs. Jobs already running are not affected.
+   */
+  public pause(): void {
+    this.#paused = true;
+  }
+
+  /**
+   * Resumes the dispatch of jobs after a call to `pause`.
+   */
+  public resume(): void {
+    if(!this.#paused) return;
+
+    this.#paused = false;
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Sets the concurrency and weight of a job group.
+   * 
+   * @param group The name of the group.
+   * @param options The options of the group.
+   */
+  public configureGroup(group: string, options: GroupOptions): void {
+    const state = this.#groupOf(group);
+
+    state.concurrency = typeof options.concurrency === 'number' ? Math.max(1, options.concurrency) : void 0;
+    state.weight = Math.max(1, Math.floor(options.weight ?? 1));
+    state.configured = true;
+
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Pauses the dispatch of the jobs of a group. Other groups are not affected.
+   * 
+   * @param group The name of the group.
+   */
+  public pauseGroup(group: string): void {
+    this.#groupOf(group).paused = true;
+  }
+
+  /**
+   * Resumes the dispatch of the jobs of a group after a call to `pauseGroup`.
+   * 
+   * @param group The name of the group.
+   */
+  public resumeGroup(group: string): void {
+    const state = this.#groups.get(group);
+    if(!state?.paused) return;
+
+    state.paused = false;
+
+    if(!state.configured) {
+      this.#groups.delete(group);
+    }
+
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Checks if the dispatch of the jobs of a group is paused.
+   * 
+   * @param group The name of the group.
+   */
+  public isGroupPaused(group: string): boolean {
+    return this.#groups.get(group)?.paused ?? false;
+  }
+
+  /**
+   * Waits until the queue is empty and no job is running or waiting to be retried.
+   * 
+   * @returns A promise that resolves when the event loop is idle.
+   */
+  public onIdle(): Promise<void> {
+    return this.#until(() => (
+      this.#store.size === 0 &&
+      this.#executing.length === 0 &&
+      this.#timers.size === 0 &&
+      this.#parked.size === 0
+    ));
+  }
+
+  /**
+   * Waits until every queued job has been dispatched. Jobs may still be running.
+   * 
+   * @returns A promise that resolves when the queue is empty.
+   */
+  public drain(): Promise<void> {
+    return this.#until(() => this.#store.size === 0);
+  }
+
+  /**
+   * Stops the event loop. New jobs are rejected while stopping, jobs that have not started
+   * yet are kept in the queue and the promise returned by `start` is resolved once done.
+   * 
+   * @param options Options for stopping the event loop.
+   * @returns A promise that resolves when the event loop is stopped.
+   */
+  public stop(options?: StopOptions): Promise<void> {
+    if(!this.#stopping) {
+      this.#stopping = this.#shutdown(Object.assign({ graceful: true }, options)).finally(() => {
+        this.#stopping = void 0;
+      });
+    }
+
+    return this.#stopping;
+  }
+
+  /**
+   * Lists the jobs that failed all of their attempts.
+   * 
+   * @returns The dead letters, or an empty array if no dead-letter store is configured.
+   */
+  public listDeadLetters(): DeadLetter<T, E>[] {
+    return this.#deadLetters?.list() ?? [];
+  }
+
+  /**
+   * Moves dead letters back to the queue with their attempts reset.
+   * 
+   * @param jobIds The ids of the jobs to requeue (default is every dead letter).
+   * @returns The ids of the requeued jobs.
+   * @throws {Exception} If the event loop is stopping, or the queue is full and
+   *                    `overflow` is `reject-new` (the jobs requeued so far stay queued).
+   */
+  public requeueDeadLetters(jobIds?: string[]): string[] {
+    if(!this.#deadLetters) return [];
+
+    if(this.#stopping) {
+      throw new Exception('EventLoop is stopping and does not accept new jobs');
+    }
+
+    const requeued: string[] = [];
+
+    for(const jobId of jobIds ?? this.#deadLetters.list().map(entry => entry.job.jobId)) {
+      if(!this.#deadLetters.get(jobId)) continue;
+
+      this.#makeRoom();
+
+      const entry = this.#deadLetters.remove(jobId)!;
+
+      const job: Job<T> = {
+        ...entry.job,
+        queuedAt: Date.now(),
+        attemptsMade: 0,
+        availableAt: undefined,
+      };
+
+      this.#enqueue(job);
+      this.#track(job, this.#waitingState(job));
+
+      requeued.push(jobId);
+    }
+
+    if(requeued.length > 0) {
+      EventLoop.schedule(() => this.#execute());
+    }
+
+    return requeued;
+  }
+
+  /**
+   * Removes dead letters for good.
+   * 
+   * @param jobIds The ids of the jobs to remove (default is every dead letter).
+   * @returns The number of removed dead letters.
+   */
+  public purgeDeadLetters(jobIds?: string[]): number {
+    if(!this.#deadLetters) return 0;
+
+    if(!jobIds) {
+      const count = this.#deadLetters.size;
+      this.#deadLetters.clear();
+
+      return count;
+    }
+
+    return jobIds.filter(jobId => !!this.#deadLetters?.remove(jobId)).length;
+  }
+
+  /**
+   * Retrieves a snapshot of a job.
+   * 
+   * @param jobId The id of the job.
+   * @returns The job and its state, or undefined if the job is unknown or was evicted.
+   */
+  public getJob(jobId: string): JobInfo<T, R, E> | undefined {
+    const entry = this.#jobs.get(jobId);
+    return entry ? this.#snapshot(entry) : undefined;
+  }
+
+  /**
+   * Retrieves a snapshot of the known jobs.
+   * 
+   * @param filter Optional filter applied to the jobs.
+   * @returns The jobs and their states.
+   */
+  public getJobs(filter?: JobsFilter): JobInfo<T, R, E>[] {
+    const states = filter?.state ? (Array.isArray(filter.state) ? filter.state : [filter.state]) : null;
+    const jobs: JobInfo<T, R, E>[] = [];
+
+    for(const entry of this.#jobs.values()) {
+      if(states && !states.includes(entry.state)) continue;
+      jobs.push(this.#snapshot(entry));
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Cancels a job. A waiting or delayed job is removed from the queue, a job waiting
+   * for its children stops waiting and the `AbortSignal` of an active job is aborted.
+   * 
+   * @param jobId The id of the job.
+   * @param reason Optional reason for the cancellation.
+   * @returns True if the job was cancelled, false if it is unknown or already finished.
+   */
+  public cancel(jobId: string, reason?: string): boolean {
+    const entry = this.#jobs.get(jobId);
+    if(!entry) return false;
+
+    switch(entry.state) {
+      case 'waiting-children':
+        this.#unpark(jobId);
+        break;
+      case 'waiting':
+      case 'delayed': {
+        const timer = this.#timers.get(jobId);
+
+        if(timer) {
+          clearTimeout(timer.timeout);
+          this.#timers.delete(jobId);
+        }
+
+        // Jobs held by a timer or about to start are reserved rather than waiting
+        if(!this.#remove(jobId)) {
+          this.#store.ack(jobId);
+        }
+
+        break;
+      }
+      case 'active':
+        this.#store.ack(jobId);
+        this.#controllers.get(jobId)?.abort(new CanceledError(reason ?? `Job ${jobId} has been cancelled`));
+        break;
+      default:
+        return false;
+    }
+
+    entry.error = new CanceledError(reason ?? `Job ${jobId} has been cancelled`) as E;
+    this.#finish(entry, 'cancelled');
+
+    this.#emit('cancelled', new CancelledEvent({
+      ...entry.job,
+      reason,
+    }));
+
+    this.#publish(entry);
+
+    this.#notify();
+    return true;
+  }
+
+  /**
+   * Retrieves a snapshot of the metrics of the event loop, see `toPrometheus` to export it.
+   * 
+   * @returns The job counts, throughput, durations, failure rates and concurrency utilisation.
+   */
+  public getMetrics(): QueueMetrics {
+    const counts: Record<JobState, number> = {
+      'waiting-children': 0,
+      waiting: 0,
+      delayed: 0,
+      active: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+      expired: 0,
+    };
+
+    for(const entry of this.#jobs.values()) {
+      counts[entry.state]++;
+    }
+
+    let capacity = this.#eventLoopQueueProcessor ? this.#fallbackConcurrency() : 0;
+
+    for(const handler of this.#handlers.values()) {
+      capacity += handler.concurrency;
+    }
+
+    return this.#metrics.snapshot(counts, this.#executing.length, capacity);
+  }
+
+  /**
+   * Iterates over the jobs as they complete or fail. Outcomes are buffered until consumed,
+   * and the dispatch of new jobs is held back while the buffer is full.
+   * 
+   * @param options Additional options for the iterator.
+   * @returns An async iterator of outcomes, ended by `return` (e.g. `break` in `for await`), `stop` or `dispose`.
+   */
+  public results(options?: ResultsOptions): AsyncIterableIterator<JobOutcome<T, R, E>> {
+    const consumer: ResultConsumer<T, R, E> = {
+      buffer: [],
+      capacity: Math.max(1, options?.bufferSize ?? 100),
+      done: this.#disposed,
+    };
+
+    if(!consumer.done) {
+      this.#consumers.add(consumer);
+    }
+
+    return {
+      next: () => {
+        if(consumer.buffer.length > 0) {
+          const value = consumer.buffer.shift()!;
+
+          if(consumer.buffer.length === consumer.capacity - 1) {
+            EventLoop.schedule(() => this.#execute());
+          }
+
+          return Promise.resolve({ done: false, value });
+        }
+
+        if(consumer.done) return Promise.resolve({ done: true, value: undefined });
+
+        consumer.pending = new Deferred<IteratorResult<JobOutcome<T, R, E>>>();
+        return consumer.pending.promise;
+      },
+      return: () => {
+        this.#closeConsumer(consumer);
+        consumer.buffer.length = 0;
+
+        return Promise.resolve({ done: true, value: undefined });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  #closeConsumer(consumer: ResultConsumer<T, R, E>): void {
+    if(consumer.done) return;
+
+    consumer.done = true;
+    this.#consumers.delete(consumer);
+
+    consumer.pending?.resolve({ done: true, value: undefined });
+    consumer.pending = void 0;
+
+    EventLoop.schedule(() => this.#execute());
+  }
+
+  /**
+   * Waits for a job to complete.
+   * 
+   * @param jobId The id of the job.
+   * @returns A promise that resolves with the result of the job, or rejects with its error
+   *          if it fails, is cancelled or expires.
+   */
+  public waitFor(jobId: string): Promise<R> {
+    const entry = this.#jobs.get(jobId);
+
+    if(!entry) return Promise.reject(new Exception(`Unknown job '${jobId}'`));
+    if(entry.state === 'completed') return Promise.resolve(entry.result as R);
+    if(FINISHED_STATES.includes(entry.state)) return Promise.reject(entry.error);
+
+    const deferred = new Deferred<R>();
+
+    if(!this.#jobWaiters.has(jobId)) {
+      this.#jobWaiters.set(jobId, []);
+    }
+
+    this.#jobWaiters.get(jobId)!.push(deferred);
+    return deferred.promise;
+  }
+
+  #snapshot(entry: JobEntry<T, R, E>): JobInfo<T, R, E> {
+    return {
+      ...entry.job,
+      state: entry.state,
+      startedAt: entry.startedAt,
+      finishedAt: entry.finishedAt,
+      result: entry.result,
+      error: entry.error,
+      progress: entry.progress,
+      logs: [...entry.logs],
+      stalls: entry.stalls,
+    };
+  }
+
+  async #shutdown(options: StopOptions): Promise<void> {
+    this.#disarm();
+    this.#sleep();
+    this.#flushTimers();
+    // Disposing of the event loop while it stops rejects the waiters, which ends the stop too
+    const settled = this.#until(() => this.#executing.length === 0).catch(() => void 0);
+
+    if(!options.graceful) {
+      this.#abortAll(new CanceledError('EventLoop has been stopped'));
+    } else if(options.timeout && options.timeout > 0) {
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      const expired = await Promise.race([
+        settled.then(() => false),
+        new Promise<boolean>(resolve => {
+          timeoutId = setTimeout(resolve, options.timeout, true);
+        }),
+      ]);
+
+      clearTimeout(timeoutId);
+
+      if(expired) {
+        this.#abortAll(new CanceledError(`Graceful stop timeout of ${options.timeout}ms exceeded`));
+      }
+    }
+
+    await settled;
+
+    this.#running = false;
+    this.#eventLoopQueueProcessor = undefined;
+
+    clearInterval(this.#metricsTimer);
+    this.#metricsTimer = void 0;
+
+    this.#eventLoopQueuePool?.dispose();
+    this.#eventLoopQueuePool = void 0;
+
+    for(const consumer of [...this.#consumers]) {
+      this.#closeConsumer(consumer);
+    }
+
+    if(this.#stopPromise) {
+      this.#stopPromise.resolve();
+      this.#stopPromise = void 0;
+    }
+  }
+
+  /**
+   * Disposes of the event loop, clearing all pending jobs and event listeners.
+   * Jobs kept by a persistent store are left on it, and the promises returned by
+   * `onIdle`, `drain` and `waitFor` that are still pending reject with a `CanceledError`.
+   */
+  public dispose(): void {
+    this.#abortAll(new CanceledError('EventLoop has been disposed'));
+    this.#disarm();
+    this.#sleep();
+    this.#unwatch();
+    this.#leases.clear();
+
+    clearInterval(this.#metricsTimer);
+    this.#metricsTimer = void 0;
+
+    for(const { timeout } of this.#timers.values()) {
+      clearTimeout(timeout);
+    }
+
+    this.#running = false;
+    this.#eventLoopQueueProcessor = undefined;
+    this.#eventLoopQueuePool?.dispose();
+    this.#eventLoopQueuePool = void 0;
+
+    for(const { pool } of this.#handlers.values()) {
+      pool?.dispose();
+    }
+
+    this.#handlers.clear();
+    this.#store.dispose();
+    this.#timers.clear();
+    this.#jobs.clear();
+    this.#parked.clear();
+    this.#dependents.clear();
+    this.#groups.clear();
+    this.#lanes.clear();
+    this.#queued.clear();
+    this.#byAge.clear();
+    this.#pausedTypes.clear();
+
+    for(const { timer } of this.#dedupe.values()) {
+      clearTimeout(timer);
+    }
+
+    this.#dedupe.clear();
+
+    for(const consumer of [...this.#consumers]) {
+      this.#closeConsumer(consumer);
+    }
+
+    for(const waiters of this.#jobWaiters.values()) {
+      for(const deferred of waiters) {
+        deferred.reject(new CanceledError('EventLoop has been disposed'));
+      }
+    }
+
+    this.#jobWaiters.clear();
+    this.#repeatables.clear();
+    this.#rateLimited.clear();
+    this.#finished.clear();
+    this.#executing = [];
+
+    for(const { deferred } of this.#waiters.splice(0)) {
+      deferred.reject(new CanceledError('EventLoop has been disposed'));
+    }
 
     if(this.#stopPromise) {
       this.#stopPromise.resolve();
@@ -432,6 +3073,7 @@ export class EventLoop<T = any, R = any, E = unknown> implements IEventLoop<T, R
 
     this.removeAllEventListeners();
     this.#ee.dispose();
+    this.#disposed = true;
   }
 }
 
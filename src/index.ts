@@ -1,9 +1,18 @@
 export * from './core';
+export * from './cancellation';
+export * from './channel';
+export * from './cron';
 export * from './events';
+export * from './metrics';
 export * from './iterable';
+export * from './ipc';
 export * from './deferred';
+export * from './lock';
+export * from './semaphore';
 export * from './event-loop';
+export * from './queue-store';
 export * from './concurrently';
+export * from './worker-pool';
 
 
 
@@ -18,6 +27,7 @@ export namespace nsync { // eslint-disable-line @typescript-eslint/no-namespace
 
   export const concurrently: typeof import('./concurrently').concurrency = require('./concurrently').concurrency;
   export const iterable: typeof import('./iterable').iterable = require('./iterable').iterable;
+  export const toPrometheus: typeof import('./metrics').toPrometheus = require('./metrics').toPrometheus;
 
   /**
    * Represents the constructor of the EventLoop class.
@@ -46,6 +56,41 @@ export namespace nsync { // eslint-disable-line @typescript-eslint/no-namespace
    */
   export const EventLoop: typeof import('./event-loop').EventLoop = require('./event-loop').EventLoop;
 
+  /**
+   * A queue store that keeps every job in memory.
+   */
+  export const MemoryQueueStore: typeof import('./queue-store').MemoryQueueStore = require('./queue-store').MemoryQueueStore;
+
+  /**
+   * A queue store backed by an append-only journal file.
+   */
+  export const FileQueueStore: typeof import('./queue-store').FileQueueStore = require('./queue-store').FileQueueStore;
+
+  /**
+   * A dead-letter store that keeps every failed job in memory.
+   */
+  export const MemoryDeadLetterStore: typeof import('./queue-store').MemoryDeadLetterStore = require('./queue-store').MemoryDeadLetterStore;
+
+  /**
+   * Represents a parsed cron expression.
+   */
+  export const CronExpression: typeof import('./cron').CronExpression = require('./cron').CronExpression;
+
+  /**
+   * Hosts an event loop for the processes connecting to a local socket.
+   */
+  export const EventLoopServer: typeof import('./ipc').EventLoopServer = require('./ipc').EventLoopServer;
+
+  /**
+   * Connects to an `EventLoopServer` to add jobs and to process them as a remote worker.
+   */
+  export const EventLoopClient: typeof import('./ipc').EventLoopClient = require('./ipc').EventLoopClient;
+
+  /**
+   * A pool of `worker_threads` workers running the processing function of a module.
+   */
+  export const WorkerPool: typeof import('./worker-pool').WorkerPool = require('./worker-pool').WorkerPool;
+
   /**
    * Represents an event object.
    * 
@@ -55,12 +100,60 @@ export namespace nsync { // eslint-disable-line @typescript-eslint/no-namespace
 
   export const EventEmitter: typeof import('./events').EventEmitter = require('./events').EventEmitter;
 
+  /**
+   * Creates and controls a cancellation token.
+   */
+  export const CancellationTokenSource: typeof import('./cancellation').CancellationTokenSource = require('./cancellation').CancellationTokenSource;
+
+  /**
+   * A token signaling that an operation should be cancelled.
+   */
+  export const CancellationToken: typeof import('./cancellation').CancellationToken = require('./cancellation').CancellationToken;
+
+  /**
+   * Runs a callback with a cancellation token and returns a promise that can be cancelled.
+   *
+   * @param callback The function performing the work.
+   * @param parent A token whose cancellation also cancels the promise.
+   * @returns A promise that resolves with the result of the callback, or rejects when cancelled.
+   */
+  export const createCancelablePromise: typeof import('./cancellation').createCancelablePromise = require('./cancellation').createCancelablePromise;
+
   /**
    * Represents a promise whose resolution can be controlled externally.
    * Allows resolving, rejecting, and canceling the promise.
    */
   export const Deferred: typeof import('./deferred').Deferred = require('./deferred').Deferred;
 
+  /**
+   * An asynchronous mutual exclusion lock.
+   */
+  export const Mutex: typeof import('./lock').Mutex = require('./lock').Mutex;
+
+  /**
+   * An asynchronous lock held either by any number of readers or by a single writer.
+   */
+  export const ReadWriteLock: typeof import('./lock').ReadWriteLock = require('./lock').ReadWriteLock;
+
+  /**
+   * A counting semaphore with weighted permits.
+   */
+  export const Semaphore: typeof import('./semaphore').Semaphore = require('./semaphore').Semaphore;
+
+  /**
+   * A typed channel to pass values between asynchronous tasks.
+   */
+  export const Channel: typeof import('./channel').Channel = require('./channel').Channel;
+
+  /**
+   * Waits until one of the cases can be performed and performs it.
+   *
+   * @param cases The receive and send cases.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the index of the performed case and the value received.
+   */
+  export const select: typeof import('./channel').select = require('./channel').select;
+
   /**
    * Delays the resolution of a promise by a specified amount of time.
    * 
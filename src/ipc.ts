@@ -0,0 +1,681 @@
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+
+import Deferred from './deferred';
+import { asPromise } from './core';
+import { Exception, CanceledError } from './_internals/errors';
+import IDisposable from './_internals/disposable';
+import type { EventLoop, Job, JobContext, JobOptions, ProcessFn } from './event-loop';
+
+
+type SerializedError = {
+  name: string;
+  message: string;
+}
+
+type RemoteTask<T> = {
+  readonly job: Job<T>;
+  readonly helpers: JobContext;
+  readonly deferred: Deferred<any>;
+  worker?: RemoteWorker<T>;
+}
+
+type RemoteWorker<T> = {
+  readonly socket: net.Socket;
+  readonly type: string;
+  readonly concurrency: number;
+  readonly running: Map<string, RemoteTask<T>>;
+}
+
+export type EventLoopServerOptions = {
+
+  /**
+   * The message types handled by remote workers. Their jobs wait for a worker
+   * to connect instead of failing for lack of a handler.
+   */
+  types?: string[];
+}
+
+export type RemoteProcessOptions = {
+
+  /**
+   * The number of jobs run at the same time by this worker (default is 1).
+   */
+  concurrency?: number;
+}
+
+
+/**
+ * The longest line (in characters) a peer may send before its connection is destroyed.
+ */
+const MAX_LINE_LENGTH = 16 * 1024 * 1024;
+
+
+function serializeError(err: unknown): SerializedError {
+  if(err instanceof Error) return { name: err.name, message: err.message };
+  return { name: 'Error', message: String(err) };
+}
+
+function deserializeError(err?: Partial<SerializedError>): Exception {
+  const error = new Exception(err?.message ?? 'Unknown error');
+  Object.defineProperty(error, 'name', { value: err?.name ?? 'Error' });
+
+  return error;
+}
+
+function send(socket: net.Socket, message: object): void {
+  if(socket.destroyed || !socket.writable) return;
+  socket.write(JSON.stringify(message) + '\n');
+}
+
+/**
+ * Calls the listener with every JSON line received on the socket. Malformed lines are skipped,
+ * and the socket is destroyed when a line grows past `MAX_LINE_LENGTH`.
+ */
+function onMessages(socket: net.Socket, listener: (message: any) => void): void {
+  let buffer = '';
+  socket.setEncoding('utf8');
+
+  socket.on('data', (chunk: string) => {
+    // The buffer held no newline before this chunk
+    const start = buffer.length;
+    buffer += chunk;
+
+    let index = buffer.indexOf('\n', start);
+
+    while(index > -1) {
+      const line = buffer.slice(0, index).trim();
+      buffer = buffer.slice(index + 1);
+      index = buffer.indexOf('\n');
+
+      if(!line) continue;
+
+      let message: any;
+
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if(typeof message === 'object' && message !== null) {
+        listener(message);
+      }
+    }
+
+    if(buffer.length > MAX_LINE_LENGTH) {
+      buffer = '';
+      socket.destroy(new Exception(`Received a message longer than ${MAX_LINE_LENGTH} characters`));
+    }
+  });
+}
+
+/**
+ * Checks whether a socket file was left by a server that is gone, which refuses connections.
+ */
+function isStale(path: string): Promise<boolean> {
+  const deferred = new Deferred<boolean>();
+  const socket = net.createConnection(path);
+
+  socket.once('error', (err: NodeJS.ErrnoException) => deferred.resolve(err.code === 'ECONNREFUSED'));
+  socket.once('connect', () => {
+    socket.destroy();
+    deferred.resolve(false);
+  });
+
+  return deferred.promise;
+}
+
+
+/**
+ * Hosts an event loop for the clients connecting to a local socket.
+ *
+ * Remote workers become the handler of their message type on the hosted event loop, with the sum
+ * of their concurrency. Jobs of a type whose workers all disconnected (or of one of the `types`
+ * given to the server before any worker connected) wait until a worker connects, the type being
+ * paused on the event loop in the meantime,
+ * and the jobs running on a worker that disconnects fail (and are retried if they have attempts left).
+ *
+ * Protocol: both ends exchange JSON objects, one per line (`\n`-terminated). Requests sent by a client carry
+ * a numeric `id` that the server echoes in its reply:
+ *
+ * - `{ "id": 1, "op": "add", "data": ..., "type": "email", "options": { ... } }` adds a job and replies with its id.
+ * - `{ "id": 2, "op": "wait", "jobId": "..." }` replies once the job completed, failed or was cancelled.
+ * - `{ "id": 3, "op": "register", "type": "email", "concurrency": 2 }` makes the client a worker for a message type.
+ *
+ * Replies are `{ "id": 1, "ok": true, "result": ... }` or `{ "id": 1, "ok": false, "error": { "name": ..., "message": ... } }`.
+ *
+ * The server hands jobs to workers with `{ "op": "job", "job": { ... } }` and asks them to give up
+ * on a job with `{ "op": "abort", "jobId": "...", "reason": "..." }`. Workers answer with
+ * `{ "op": "result", "jobId": "...", "result": ... }` or `{ "op": "error", "jobId": "...", "error": { ... } }`,
+ * and may send `progress` (`value`), `log` (`message`) and `heartbeat` messages for a running job.
+ *
+ * Data, options and results must be JSON-serializable.
+ */
+export class EventLoopServer<T = any> implements IDisposable {
+  readonly #loop: EventLoop<T>;
+  readonly #path: string;
+  readonly #sockets: Set<net.Socket> = new Set();
+  readonly #workers: Map<string, RemoteWorker<T>[]> = new Map();
+  readonly #pending: Map<string, RemoteTask<T>[]> = new Map();
+  readonly #types: readonly string[];
+  #server?: net.Server;
+  #closed: boolean = false;
+
+  /**
+   * Creates a new server.
+   *
+   * @param loop The event loop shared with the clients. Starting it is left to the caller.
+   * @param path The path of the Unix domain socket or named pipe.
+   * @param options Additional options for the server.
+   */
+  public constructor(loop: EventLoop<T>, path: string, options?: EventLoopServerOptions) {
+    this.#loop = loop;
+    this.#path = path;
+    this.#types = [...(options?.types ?? [])];
+  }
+
+  /**
+   * Gets the path of the socket.
+   */
+  public get path(): string {
+    return this.#path;
+  }
+
+  /**
+   * Starts accepting connections.
+   *
+   * A socket file left by a server that is gone is replaced.
+   *
+   * @returns A promise that resolves once the server is listening.
+   * @throws {Exception} If the server has been closed.
+   */
+  public listen(): Promise<void> {
+    if(this.#closed) {
+      return Promise.reject(new Exception('EventLoopServer has been closed'));
+    }
+
+    if(this.#server) return Promise.resolve();
+
+    for(const type of this.#types) {
+      if(!this.#workers.get(type)?.length) {
+        this.#loop.pauseType(type);
+      }
+    }
+
+    const deferred = new Deferred<void>();
+    const server = net.createServer(socket => this.#connect(socket));
+
+    this.#server = server;
+
+    const fail = (err: unknown) => {
+      this.#server = void 0;
+      deferred.reject(err);
+    };
+
+    server.once('error', (err: NodeJS.ErrnoException) => {
+      if(err.code !== 'EADDRINUSE') return fail(err);
+
+      isStale(this.#path).then(stale => {
+        if(!stale) return fail(err);
+
+        if(this.#server !== server) {
+          return void deferred.reject(new CanceledError('EventLoopServer has been closed'));
+        }
+
+        fs.unlinkSync(this.#path);
+
+        server.once('error', fail);
+        server.listen(this.#path);
+      }).catch(fail);
+    });
+
+    server.listen(this.#path, () => deferred.resolve());
+    return deferred.promise;
+  }
+
+  /**
+   * Stops accepting connections, disconnects every client and fails the jobs handed to remote workers.
+   *
+   * @returns A promise that resolves once the server is closed.
+   */
+  public close(): Promise<void> {
+    if(this.#closed) return Promise.resolve();
+    this.#closed = true;
+
+    const reason = new CanceledError('EventLoopServer has been closed');
+
+    for(const tasks of this.#pending.values()) {
+      for(const task of tasks) {
+        task.deferred.reject(reason);
+      }
+    }
+
+    this.#pending.clear();
+
+    for(const socket of this.#sockets) {
+      this.#disconnect(socket, reason);
+      socket.destroy();
+    }
+
+    this.#sockets.clear();
+
+    const server = this.#server;
+    this.#server = void 0;
+
+    if(!server) return Promise.resolve();
+
+    const deferred = new Deferred<void>();
+    server.close(() => deferred.resolve());
+
+    return deferred.promise;
+  }
+
+  /**
+   * Closes the server.
+   */
+  public dispose(): void {
+    void this.close();
+  }
+
+  #connect(socket: net.Socket): void {
+    if(this.#closed) return void socket.destroy();
+
+    this.#sockets.add(socket);
+
+    onMessages(socket, message => this.#handle(socket, message));
+
+    socket.on('error', () => void 0);
+    socket.on('close', () => {
+      this.#sockets.delete(socket);
+      this.#disconnect(socket, new Exception('Worker disconnected'));
+    });
+  }
+
+  #handle(socket: net.Socket, message: any): void {
+    const reply = (result: unknown) => send(socket, { id: message.id, ok: true, result });
+    const fail = (err: unknown) => send(socket, { id: message.id, ok: false, error: serializeError(err) });
+
+    switch(message.op) {
+      case 'add':
+        asPromise(() => this.#loop.add(message.data, message.type ?? undefined, message.options)).then(reply, fail);
+        break;
+      case 'wait':
+        this.#loop.waitFor(String(message.jobId)).then(reply, fail);
+        break;
+      case 'register':
+        asPromise(() => this.#register(socket, message.type, message.concurrency)).then(reply, fail);
+        break;
+      case 'progress':
+      case 'log':
+      case 'heartbeat':
+      case 'result':
+      case 'error':
+        this.#report(socket, message);
+        break;
+      default:
+        if(typeof message.id === 'number') {
+          fail(new Exception(`Unknown operation '${message.op}'`));
+        }
+    }
+  }
+
+  #register(socket: net.Socket, type: unknown, concurrency: unknown): void {
+    if(typeof type !== 'string' || type.length === 0) {
+      throw new TypeError('A remote worker requires a message type');
+    }
+
+    const worker: RemoteWorker<T> = {
+      socket,
+      type,
+      concurrency: Math.max(1, Number(concurrency) || 1),
+      running: new Map(),
+    };
+
+    if(!this.#workers.has(type)) {
+      this.#workers.set(type, []);
+    }
+
+    const workers = this.#workers.get(type)!;
+    workers.push(worker);
+
+    if(workers.length === 1) {
+      this.#loop.process(type, this.#handlerOf(type), { concurrency: worker.concurrency });
+      this.#loop.resumeType(type);
+    } else {
+      this.#loop.setConcurrency(type, this.#concurrencyOf(type));
+    }
+
+    this.#dispatch(type);
+  }
+
+  /**
+   * Gets the sum of the concurrency of the remote workers of a message type.
+   */
+  #concurrencyOf(type: string): number {
+    return (this.#workers.get(type) ?? []).reduce((sum, worker) => sum + worker.concurrency, 0);
+  }
+
+  #handlerOf(type: string): ProcessFn<T> {
+    return (job, signal, helpers) => {
+      if(this.#closed) {
+        return Promise.reject(new CanceledError('EventLoopServer has been closed'));
+      }
+
+      const task: RemoteTask<T> = { job, helpers, deferred: new Deferred<any>() };
+
+      signal.addEventListener('abort', () => {
+        if(task.worker) {
+          task.worker.running.delete(job.jobId);
+          send(task.worker.socket, { op: 'abort', jobId: job.jobId, reason: serializeError(signal.reason).message });
+
+          this.#dispatch(type);
+        } else {
+          const pending = this.#pending.get(type) ?? [];
+          const index = pending.indexOf(task);
+
+          if(index > -1) {
+            pending.splice(index, 1);
+          }
+        }
+
+        task.deferred.reject(signal.reason);
+      }, { once: true });
+
+      if(!this.#pending.has(type)) {
+        this.#pending.set(type, []);
+      }
+
+      this.#pending.get(type)!.push(task);
+      this.#dispatch(type);
+
+      return task.deferred.promise;
+    };
+  }
+
+  #dispatch(type: string): void {
+    const pending = this.#pending.get(type);
+    if(!pending) return;
+
+    for(const worker of this.#workers.get(type) ?? []) {
+      while(pending.length > 0 && worker.running.size < worker.concurrency) {
+        const task = pending.shift()!;
+
+        task.worker = worker;
+        worker.running.set(task.job.jobId, task);
+
+        send(worker.socket, { op: 'job', job: task.job });
+      }
+    }
+  }
+
+  #report(socket: net.Socket, message: any): void {
+    let task: RemoteTask<T> | undefined;
+
+    for(const workers of this.#workers.values()) {
+      const worker = workers.find(item => item.socket === socket && item.running.has(message.jobId));
+
+      if(worker) {
+        task = worker.running.get(message.jobId);
+        break;
+      }
+    }
+
+    if(!task) return;
+
+    switch(message.op) {
+      case 'progress':
+        task.helpers.updateProgress(message.value);
+        break;
+      case 'log':
+        task.helpers.log(String(message.message));
+        break;
+      case 'heartbeat':
+        task.helpers.heartbeat();
+        break;
+      case 'result':
+      case 'error':
+        task.worker!.running.delete(message.jobId);
+
+        if(message.op === 'result') {
+          task.deferred.resolve(message.result);
+        } else {
+          task.deferred.reject(deserializeError(message.error));
+        }
+
+        this.#dispatch(task.worker!.type);
+        break;
+    }
+  }
+
+  #disconnect(socket: net.Socket, reason: unknown): void {
+    for(const [type, workers] of this.#workers) {
+      const gone = workers.filter(worker => worker.socket === socket);
+      if(gone.length === 0) continue;
+
+      for(const worker of gone) {
+        workers.splice(workers.indexOf(worker), 1);
+
+        for(const task of worker.running.values()) {
+          task.deferred.reject(reason);
+        }
+
+        worker.running.clear();
+      }
+
+      if(workers.length > 0) {
+        this.#loop.setConcurrency(type, this.#concurrencyOf(type));
+        this.#dispatch(type);
+
+        continue;
+      }
+
+      // Without workers, the jobs of the type wait in the event loop instead of being dispatched
+      this.#workers.delete(type);
+      this.#loop.pauseType(type);
+      this.#loop.removeHandler(type);
+
+      for(const task of this.#pending.get(type)?.splice(0) ?? []) {
+        task.deferred.reject(reason);
+      }
+    }
+  }
+}
+
+
+/**
+ * Connects to an `EventLoopServer` to add jobs and to process them as a remote worker.
+ */
+export class EventLoopClient<T = any, R = any> implements IDisposable {
+
+  /**
+   * Connects to a server.
+   *
+   * @param path The path of the Unix domain socket or named pipe of the server.
+   * @returns A promise that resolves with the connected client.
+   */
+  public static connect<T = any, R = any>(path: string): Promise<EventLoopClient<T, R>> {
+    const deferred = new Deferred<EventLoopClient<T, R>>();
+    const socket = net.createConnection(path);
+
+    socket.once('error', err => deferred.reject(err));
+    socket.once('connect', () => deferred.resolve(new EventLoopClient<T, R>(socket)));
+
+    return deferred.promise;
+  }
+
+  readonly #socket: net.Socket;
+  readonly #requests: Map<number, Deferred<any>> = new Map();
+  readonly #handlers: Map<string, ProcessFn<T>> = new Map();
+  readonly #running: Map<string, AbortController> = new Map();
+  #sequence: number = 0;
+  #closed: boolean = false;
+
+  private constructor(socket: net.Socket) {
+    this.#socket = socket;
+
+    onMessages(socket, message => this.#handle(message));
+
+    socket.on('error', () => void 0);
+    socket.on('close', () => this.#teardown());
+  }
+
+  /**
+   * Checks if the connection is closed.
+   */
+  public get isClosed(): boolean {
+    return this.#closed;
+  }
+
+  /**
+   * Adds a new job to the event loop of the server.
+   *
+   * @param context The context or data associated with the job.
+   * @param type Optional string identifier for the job type.
+   * @param options Additional options for the job.
+   * @returns A promise that resolves with the id of the job.
+   */
+  public add(context: T, type?: string, options?: JobOptions): Promise<string> {
+    return this.#request({ op: 'add', data: context, type, options });
+  }
+
+  /**
+   * Waits for a job to complete.
+   *
+   * @param jobId The id of the job.
+   * @returns A promise that resolves with the result of the job, or rejects with its error.
+   */
+  public waitFor(jobId: string): Promise<R> {
+    return this.#request({ op: 'wait', jobId });
+  }
+
+  /**
+   * Registers this process as a worker for a message type.
+   *
+   * @param type The message type handled by the function.
+   * @param handler The processing function to be executed for each job of this type.
+   * @param options Additional options for the worker.
+   * @returns A promise that resolves once the server accepted the worker.
+   */
+  public process(type: string, handler: ProcessFn<T>, options?: RemoteProcessOptions): Promise<void> {
+    if(typeof handler !== 'function') {
+      throw new TypeError(`[${typeof handler}] Expected \`handler\` as a function`);
+    }
+
+    this.#handlers.set(type, handler);
+    return this.#request({ op: 'register', type, concurrency: options?.concurrency ?? 1 });
+  }
+
+  /**
+   * Closes the connection. Running jobs are aborted.
+   */
+  public close(): Promise<void> {
+    if(this.#closed) return Promise.resolve();
+
+    const deferred = new Deferred<void>();
+
+    this.#socket.once('close', () => deferred.resolve());
+    this.#socket.end();
+
+    return deferred.promise;
+  }
+
+  /**
+   * Closes the connection right away.
+   */
+  public dispose(): void {
+    this.#socket.destroy();
+    this.#teardown();
+  }
+
+  #request<TResult>(message: object): Promise<TResult> {
+    if(this.#closed) {
+      return Promise.reject(new Exception('EventLoopClient connection is closed'));
+    }
+
+    const id = this.#sequence++;
+    const deferred = new Deferred<TResult>();
+
+    this.#requests.set(id, deferred);
+    send(this.#socket, { id, ...message });
+
+    return deferred.promise;
+  }
+
+  #handle(message: any): void {
+    if(typeof message.id === 'number') {
+      const deferred = this.#requests.get(message.id);
+      if(!deferred) return;
+
+      this.#requests.delete(message.id);
+
+      if(message.ok) {
+        deferred.resolve(message.result);
+      } else {
+        deferred.reject(deserializeError(message.error));
+      }
+
+      return;
+    }
+
+    switch(message.op) {
+      case 'job':
+        this.#run(message.job);
+        break;
+      case 'abort':
+        this.#running.get(message.jobId)?.abort(new CanceledError(message.reason));
+        break;
+    }
+  }
+
+  #run(job: Job<T>): void {
+    const handler = typeof job.messageType === 'string' ? this.#handlers.get(job.messageType) : undefined;
+
+    if(!handler) {
+      send(this.#socket, {
+        op: 'error',
+        jobId: job.jobId,
+        error: serializeError(new Exception(`No handler registered for message type '${job.messageType}'`)),
+      });
+
+      return;
+    }
+
+    const ac = new AbortController();
+    this.#running.set(job.jobId, ac);
+
+    const helpers: JobContext = {
+      updateProgress: value => send(this.#socket, { op: 'progress', jobId: job.jobId, value }),
+      log: message => send(this.#socket, { op: 'log', jobId: job.jobId, message }),
+      heartbeat: () => send(this.#socket, { op: 'heartbeat', jobId: job.jobId }),
+    };
+
+    asPromise(() => handler(job, ac.signal, helpers)).then(result => {
+      if(ac.signal.aborted) return;
+      send(this.#socket, { op: 'result', jobId: job.jobId, result });
+    }, err => {
+      if(ac.signal.aborted) return;
+      send(this.#socket, { op: 'error', jobId: job.jobId, error: serializeError(err) });
+    }).finally(() => {
+      this.#running.delete(job.jobId);
+    });
+  }
+
+  #teardown(): void {
+    if(this.#closed) return;
+    this.#closed = true;
+
+    const reason = new Exception('EventLoopClient connection is closed');
+
+    for(const deferred of this.#requests.values()) {
+      deferred.reject(reason);
+    }
+
+    for(const ac of this.#running.values()) {
+      ac.abort(new CanceledError('EventLoopClient connection is closed'));
+    }
+
+    this.#requests.clear();
+    this.#running.clear();
+  }
+}
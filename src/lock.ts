@@ -0,0 +1,263 @@
+import IDisposable from './_internals/disposable';
+import { type Waiter, createHandle, enqueue } from './_internals/wait-queue';
+
+
+export type LockOptions = {
+
+  /**
+   * Aborting the signal gives up waiting for the lock, rejecting with the reason of the signal.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Gives up waiting for the lock after this many milliseconds, rejecting with a `TimeoutError`.
+   */
+  timeout?: number;
+}
+
+/**
+ * A held lock. Releasing it more than once has no effect, and it can be held
+ * with a `using` declaration to be released at the end of the block.
+ */
+export interface LockHandle extends IDisposable, Disposable {
+
+  /**
+   * Releases the lock.
+   */
+  release(): void;
+}
+
+
+/**
+ * An asynchronous mutual exclusion lock.
+ *
+ * Waiters are granted the lock in the order they asked for it.
+ */
+export class Mutex {
+  readonly #waiters: Waiter[] = [];
+  #locked: boolean = false;
+
+  /**
+   * Checks if the lock is held.
+   */
+  public get isLocked(): boolean {
+    return this.#locked;
+  }
+
+  /**
+   * Gets the number of callers waiting for the lock.
+   */
+  public get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Waits for the lock.
+   *
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the handle releasing the lock.
+   */
+  public acquire(options?: LockOptions): Promise<LockHandle> {
+    const handle = this.tryAcquire();
+    if(handle) return Promise.resolve(handle);
+
+    return enqueue(this.#waiters, {}, options);
+  }
+
+  /**
+   * Takes the lock if it is free and nobody is waiting for it.
+   *
+   * @returns The handle releasing the lock, or null if the lock is not available.
+   */
+  public tryAcquire(): LockHandle | null {
+    if(this.#locked || this.#waiters.length > 0) return null;
+
+    this.#locked = true;
+    return createHandle(() => this.#release());
+  }
+
+  /**
+   * Runs a function while holding the lock, releasing it once the function settles.
+   *
+   * @param callback The function to run.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the result of the function.
+   */
+  public async runExclusive<R>(callback: () => R | Promise<R>, options?: LockOptions): Promise<R> {
+    const handle = await this.acquire(options);
+
+    try {
+      return await callback();
+    } finally {
+      handle.release();
+    }
+  }
+
+  #release(): void {
+    const next = this.#waiters.shift();
+
+    if(!next) {
+      this.#locked = false;
+      return;
+    }
+
+    // The lock is handed over without being freed in between
+    void next.deferred.resolve(createHandle(() => this.#release()));
+  }
+}
+
+
+/**
+ * An asynchronous lock held either by any number of readers or by a single writer.
+ *
+ * Writers are preferred: once a writer is waiting, new readers wait until it is done,
+ * so a steady flow of readers cannot starve writers.
+ */
+export class ReadWriteLock {
+  readonly #readWaiters: Waiter[] = [];
+  readonly #writeWaiters: Waiter[] = [];
+  #readers: number = 0;
+  #writing: boolean = false;
+
+  /**
+   * Gets the number of readers holding the lock.
+   */
+  public get readers(): number {
+    return this.#readers;
+  }
+
+  /**
+   * Checks if a writer holds the lock.
+   */
+  public get isWriteLocked(): boolean {
+    return this.#writing;
+  }
+
+  /**
+   * Gets the number of callers waiting for the lock.
+   */
+  public get waiting(): number {
+    return this.#readWaiters.length + this.#writeWaiters.length;
+  }
+
+  /**
+   * Waits for a shared read lock.
+   *
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the handle releasing the lock.
+   */
+  public acquireRead(options?: LockOptions): Promise<LockHandle> {
+    const handle = this.tryAcquireRead();
+    if(handle) return Promise.resolve(handle);
+
+    return enqueue(this.#readWaiters, {}, options);
+  }
+
+  /**
+   * Waits for the exclusive write lock.
+   *
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the handle releasing the lock.
+   */
+  public acquireWrite(options?: LockOptions): Promise<LockHandle> {
+    const handle = this.tryAcquireWrite();
+    if(handle) return Promise.resolve(handle);
+
+    const promise = enqueue(this.#writeWaiters, {}, options);
+
+    // A writer giving up may let the readers queued behind it through
+    promise.catch(() => this.#dispatch());
+
+    return promise;
+  }
+
+  /**
+   * Takes a read lock if no writer holds or waits for the lock.
+   *
+   * @returns The handle releasing the lock, or null if the lock is not available.
+   */
+  public tryAcquireRead(): LockHandle | null {
+    if(this.#writing || this.#writeWaiters.length > 0) return null;
+
+    this.#readers++;
+    return this.#readHandle();
+  }
+
+  /**
+   * Takes the write lock if the lock is free and nobody is waiting for it.
+   *
+   * @returns The handle releasing the lock, or null if the lock is not available.
+   */
+  public tryAcquireWrite(): LockHandle | null {
+    if(this.#writing || this.#readers > 0 || this.#writeWaiters.length > 0) return null;
+
+    this.#writing = true;
+    return this.#writeHandle();
+  }
+
+  /**
+   * Runs a function while holding a read lock, releasing it once the function settles.
+   *
+   * @param callback The function to run.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the result of the function.
+   */
+  public async runRead<R>(callback: () => R | Promise<R>, options?: LockOptions): Promise<R> {
+    const handle = await this.acquireRead(options);
+
+    try {
+      return await callback();
+    } finally {
+      handle.release();
+    }
+  }
+
+  /**
+   * Runs a function while holding the write lock, releasing it once the function settles.
+   *
+   * @param callback The function to run.
+   * @param options Options to give up waiting.
+   * @returns A promise that resolves with the result of the function.
+   */
+  public async runWrite<R>(callback: () => R | Promise<R>, options?: LockOptions): Promise<R> {
+    const handle = await this.acquireWrite(options);
+
+    try {
+      return await callback();
+    } finally {
+      handle.release();
+    }
+  }
+
+  #readHandle(): LockHandle {
+    return createHandle(() => {
+      this.#readers--;
+      this.#dispatch();
+    });
+  }
+
+  #writeHandle(): LockHandle {
+    return createHandle(() => {
+      this.#writing = false;
+      this.#dispatch();
+    });
+  }
+
+  #dispatch(): void {
+    if(this.#writing) return;
+
+    if(this.#writeWaiters.length > 0) {
+      if(this.#readers > 0) return;
+
+      this.#writing = true;
+      void this.#writeWaiters.shift()!.deferred.resolve(this.#writeHandle());
+
+      return;
+    }
+
+    for(const waiter of this.#readWaiters.splice(0)) {
+      this.#readers++;
+      void waiter.deferred.resolve(this.#readHandle());
+    }
+  }
+}
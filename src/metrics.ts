@@ -0,0 +1,155 @@
+import type { JobState } from './event-loop';
+
+
+/**
+ * Summarizes the most recent durations of a measurement, in milliseconds.
+ */
+export type DurationSummary = {
+  readonly count: number;
+  readonly sum: number;
+  readonly mean: number;
+  readonly p50: number;
+  readonly p95: number;
+  readonly p99: number;
+}
+
+export type MessageTypeMetrics = {
+  readonly completed: number;
+  readonly failed: number;
+
+  /**
+   * The share of finished jobs that failed, between 0 and 1.
+   */
+  readonly failureRate: number;
+}
+
+/**
+ * Represents a snapshot of the metrics of an event loop.
+ */
+export interface QueueMetrics {
+  readonly timestamp: number;
+
+  /**
+   * The number of known jobs in each state.
+   */
+  readonly counts: Readonly<Record<JobState, number>>;
+
+  /**
+   * The number of jobs that completed or failed since the event loop was created.
+   */
+  readonly totals: { readonly completed: number; readonly failed: number };
+
+  /**
+   * The number of jobs that completed or failed within the last minute.
+   */
+  readonly throughput: { readonly completed: number; readonly failed: number };
+
+  /**
+   * The time jobs waited in the queue before their first attempt.
+   */
+  readonly waitTime: DurationSummary;
+
+  /**
+   * The time taken by each attempt.
+   */
+  readonly processingTime: DurationSummary;
+
+  /**
+   * The totals by message type. Jobs without a message type are counted under `default`.
+   */
+  readonly byType: Readonly<Record<string, MessageTypeMetrics>>;
+
+  readonly concurrency: {
+    readonly running: number;
+    readonly capacity: number;
+
+    /**
+     * The share of the concurrency slots in use, between 0 and 1.
+     */
+    readonly utilisation: number;
+  };
+}
+
+export type PrometheusOptions = {
+
+  /**
+   * The prefix of every metric name (default is `eventloop`).
+   */
+  prefix?: string;
+
+  /**
+   * Labels added to every sample, e.g. `{ queue: 'emails' }`.
+   */
+  labels?: Record<string, string>;
+}
+
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+
+/**
+ * Renders a metrics snapshot in the Prometheus text exposition format.
+ *
+ * @param metrics The snapshot returned by `EventLoop.getMetrics`.
+ * @param options Additional options for the rendering.
+ * @returns The metrics in the text exposition format.
+ */
+export function toPrometheus(metrics: QueueMetrics, options?: PrometheusOptions): string {
+  const prefix = options?.prefix ?? 'eventloop';
+  const constant = options?.labels ?? {};
+  const lines: string[] = [];
+
+  const metric = (name: string, type: 'gauge' | 'counter' | 'summary', help: string, samples: [string, Record<string, string>, number][]) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+
+    for(const [suffix, labels, value] of samples) {
+      lines.push(`${prefix}_${name}${suffix}${formatLabels({ ...constant, ...labels })} ${value}`);
+    }
+  };
+
+  const summary = (name: string, help: string, durations: DurationSummary) => {
+    metric(name, 'summary', help, [
+      ['', { quantile: '0.5' }, durations.p50 / 1000],
+      ['', { quantile: '0.95' }, durations.p95 / 1000],
+      ['', { quantile: '0.99' }, durations.p99 / 1000],
+      ['_sum', {}, durations.sum / 1000],
+      ['_count', {}, durations.count],
+    ]);
+  };
+
+  const types = Object.entries(metrics.byType);
+
+  metric('jobs', 'gauge', 'Number of known jobs by state.',
+    Object.entries(metrics.counts).map(([state, count]) => ['', { state }, count]));
+
+  metric('jobs_completed_total', 'counter', 'Number of completed jobs by message type.',
+    types.map(([type, item]) => ['', { message_type: type }, item.completed]));
+
+  metric('jobs_failed_total', 'counter', 'Number of failed jobs by message type.',
+    types.map(([type, item]) => ['', { message_type: type }, item.failed]));
+
+  metric('jobs_failure_rate', 'gauge', 'Share of finished jobs that failed by message type.',
+    types.map(([type, item]) => ['', { message_type: type }, item.failureRate]));
+
+  metric('throughput_per_minute', 'gauge', 'Number of jobs finished within the last minute.', [
+    ['', { outcome: 'completed' }, metrics.throughput.completed],
+    ['', { outcome: 'failed' }, metrics.throughput.failed],
+  ]);
+
+  summary('job_wait_seconds', 'Time jobs waited in the queue before their first attempt.', metrics.waitTime);
+  summary('job_processing_seconds', 'Time taken by each attempt.', metrics.processingTime);
+
+  metric('concurrency_running', 'gauge', 'Number of running jobs.', [['', {}, metrics.concurrency.running]]);
+  metric('concurrency_capacity', 'gauge', 'Number of concurrency slots.', [['', {}, metrics.concurrency.capacity]]);
+  metric('concurrency_utilisation', 'gauge', 'Share of the concurrency slots in use.', [['', {}, metrics.concurrency.utilisation]]);
+
+  return lines.join('\n') + '\n';
+}
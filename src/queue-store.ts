@@ -0,0 +1,637 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { Job } from './event-loop';
+import { Exception } from './_internals/errors';
+import IDisposable from './_internals/disposable';
+import { PriorityQueue } from './_internals/priority-queue';
+
+
+export type QueueStoreJobState = 'waiting' | 'reserved';
+
+/**
+ * Represents the storage used by an event loop to keep its jobs.
+ *
+ * The event loop dispatches jobs synchronously, so every method
+ * of a store must complete before returning.
+ */
+export interface QueueStore<T> extends IDisposable {
+
+  /**
+   * Gets the number of jobs waiting to be reserved.
+   */
+  readonly size: number;
+
+  /**
+   * Adds a job to the waiting list.
+   *
+   * @param job The job to be stored.
+   */
+  enqueue(job: Job<T>): void;
+
+  /**
+   * Retrieves the next waiting job of a partition without reserving it.
+   *
+   * @param partition The key of the partition.
+   * @returns The job or null if the partition has no waiting jobs.
+   */
+  peek(partition: string): Job<T> | null;
+
+  /**
+   * Takes the next waiting job (by priority and insertion order) and marks it as reserved.
+   *
+   * @param partitions Optional partitions to take the job from, every partition when omitted.
+   * @returns The reserved job or null if there are no waiting jobs.
+   */
+  reserve(partitions?: Iterable<string>): Job<T> | null;
+
+  /**
+   * Acknowledges a reserved job, removing it from the store for good.
+   *
+   * @param jobId The id of the reserved job.
+   */
+  ack(jobId: string): void;
+
+  /**
+   * Moves a reserved job back to the waiting list.
+   *
+   * @param job The reserved job, with its up-to-date state.
+   */
+  nack(job: Job<T>): void;
+
+  /**
+   * Removes a waiting job from the store.
+   *
+   * @param jobId The id of the waiting job.
+   * @returns The removed job, if it was waiting.
+   */
+  remove(jobId: string): Job<T> | undefined;
+
+  /**
+   * Lists the jobs in the store.
+   *
+   * @param state Optional state used to filter the jobs.
+   * @returns The waiting jobs in dispatch order followed by the reserved ones.
+   */
+  list(state?: QueueStoreJobState): Job<T>[];
+}
+
+
+/**
+ * Computes the partition of a job.
+ *
+ * The jobs of a partition share their group and message type, so whether any of them
+ * can be dispatched is known from the next one alone.
+ *
+ * @param job The job.
+ * @returns The key of the partition.
+ */
+export function partitionOf(job: Job<unknown>): string {
+  return JSON.stringify([job.options.group ?? '', job.messageType ?? null]);
+}
+
+
+type WaitingJob<T> = {
+  readonly job: Job<T>;
+  readonly sequence: number;
+}
+
+function precedes<T>(a: WaitingJob<T>, b: WaitingJob<T>): boolean {
+  const priority = (a.job.options.priority ?? 0) - (b.job.options.priority ?? 0);
+  return priority !== 0 ? priority > 0 : a.sequence < b.sequence;
+}
+
+/**
+ * A queue store that keeps every job in memory.
+ */
+export class MemoryQueueStore<T> implements QueueStore<T> {
+  readonly #partitions: Map<string, PriorityQueue<WaitingJob<T>>> = new Map();
+  readonly #waiting: Map<string, string> = new Map();
+  readonly #reserved: Map<string, Job<T>> = new Map();
+  #sequence: number = 0;
+
+  /**
+   * Gets the number of jobs waiting to be reserved.
+   */
+  public get size(): number {
+    return this.#waiting.size;
+  }
+
+  /**
+   * Adds a job to the waiting list.
+   *
+   * @param job The job to be stored.
+   */
+  public enqueue(job: Job<T>): void {
+    const key = partitionOf(job);
+    let partition = this.#partitions.get(key);
+
+    if(!partition) {
+      partition = new PriorityQueue<WaitingJob<T>>();
+      this.#partitions.set(key, partition);
+    }
+
+    partition.push({ job, sequence: this.#sequence++ }, job.options.priority ?? 0);
+    this.#waiting.set(job.jobId, key);
+  }
+
+  /**
+   * Retrieves the next waiting job of a partition without reserving it.
+   *
+   * @param partition The key of the partition.
+   * @returns The job or null if the partition has no waiting jobs.
+   */
+  public peek(partition: string): Job<T> | null {
+    return this.#partitions.get(partition)?.peek()?.job ?? null;
+  }
+
+  /**
+   * Takes the next waiting job (by priority and insertion order) and marks it as reserved.
+   *
+   * @param partitions Optional partitions to take the job from, every partition when omitted.
+   * @returns The reserved job or null if there are no waiting jobs.
+   */
+  public reserve(partitions?: Iterable<string>): Job<T> | null {
+    let best: string | null = null;
+
+    for(const key of partitions ?? this.#partitions.keys()) {
+      const head = this.#partitions.get(key)?.peek();
+      if(!head) continue;
+
+      if(best === null || precedes(head, this.#partitions.get(best)!.peek()!)) {
+        best = key;
+      }
+    }
+
+    if(best === null) return null;
+
+    const partition = this.#partitions.get(best)!;
+    const { job } = partition.pop()!;
+
+    if(partition.isEmpty()) {
+      this.#partitions.delete(best);
+    }
+
+    this.#waiting.delete(job.jobId);
+    this.#reserved.set(job.jobId, job);
+
+    return job;
+  }
+
+  /**
+   * Acknowledges a reserved job, removing it from the store for good.
+   *
+   * @param jobId The id of the reserved job.
+   */
+  public ack(jobId: string): void {
+    this.#reserved.delete(jobId);
+  }
+
+  /**
+   * Moves a reserved job back to the waiting list.
+   *
+   * @param job The reserved job, with its up-to-date state.
+   */
+  public nack(job: Job<T>): void {
+    if(!this.#reserved.delete(job.jobId)) return;
+    this.enqueue(job);
+  }
+
+  /**
+   * Removes a waiting job from the store.
+   *
+   * @param jobId The id of the waiting job.
+   * @returns The removed job, if it was waiting.
+   */
+  public remove(jobId: string): Job<T> | undefined {
+    const key = this.#waiting.get(jobId);
+    const partition = key !== undefined ? this.#partitions.get(key) : undefined;
+
+    if(!partition) return undefined;
+
+    const removed = partition.remove(item => item.job.jobId === jobId);
+
+    if(partition.isEmpty()) {
+      this.#partitions.delete(key!);
+    }
+
+    this.#waiting.delete(jobId);
+    return removed?.job;
+  }
+
+  /**
+   * Lists the jobs in the store.
+   *
+   * @param state Optional state used to filter the jobs.
+   * @returns The waiting jobs in dispatch order followed by the reserved ones.
+   */
+  public list(state?: QueueStoreJobState): Job<T>[] {
+    const jobs: Job<T>[] = [];
+
+    if(!state || state === 'waiting') {
+      const waiting = [...this.#partitions.values()].flatMap(partition => partition.toArray());
+      jobs.push(...waiting.sort((a, b) => (precedes(a, b) ? -1 : 1)).map(item => item.job));
+    }
+
+    if(!state || state === 'reserved') {
+      jobs.push(...this.#reserved.values());
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Removes every job from the store.
+   */
+  public dispose(): void {
+    this.#partitions.clear();
+    this.#waiting.clear();
+    this.#reserved.clear();
+  }
+}
+
+
+type JournalRecord<T> =
+  | { op: 'enqueue', job: Job<T> }
+  | { op: 'reserve', jobId: string }
+  | { op: 'ack', jobId: string }
+  | { op: 'nack', job: Job<T> }
+  | { op: 'remove', jobId: string };
+
+export type FileQueueStoreOptions = {
+
+  /**
+   * The number of obsolete records the journal may hold before it is compacted (default is 1000).
+   * The journal is only compacted once they also outnumber the records still needed.
+   */
+  compactThreshold?: number;
+}
+
+
+/**
+ * Counts the records of the journal a record makes obsolete, itself included.
+ */
+function obsoletedBy(record: JournalRecord<unknown>): number {
+  switch(record.op) {
+    case 'enqueue':
+      return 0;
+    case 'reserve':
+    case 'nack':
+      return 1;
+    case 'ack':
+    case 'remove':
+      return 2;
+  }
+}
+
+
+/**
+ * A queue store backed by an append-only journal file.
+ *
+ * Every operation is appended to the journal before returning, and the journal is
+ * replayed when the store is created. Jobs that were reserved but never acknowledged
+ * go back to the waiting list at their original position, giving at-least-once delivery.
+ * The journal is rewritten with the jobs still in the store once most of its records are obsolete.
+ *
+ * Job data and options must be JSON-serializable; a `backoff` function is not persisted.
+ * Only queued jobs reach the store: a job waiting for its `dependsOn` jobs is kept by
+ * the event loop, so flows do not survive a restart.
+ */
+export class FileQueueStore<T> implements QueueStore<T> {
+  readonly #memory: MemoryQueueStore<T> = new MemoryQueueStore<T>();
+
+  // The jobs of the store in the order a replay of the journal enqueues them
+  readonly #jobs: Map<string, Job<T>> = new Map();
+  readonly #filename: string;
+  readonly #compactThreshold: number;
+  #fd: number | null;
+  #records: number = 0;
+  #obsolete: number = 0;
+
+  /**
+   * Creates a new file-backed queue store.
+   *
+   * @param filename The path of the journal file.
+   * @param options Additional options for the store.
+   */
+  public constructor(filename: string, options?: FileQueueStoreOptions) {
+    this.#filename = path.resolve(filename);
+    this.#compactThreshold = Math.max(1, options?.compactThreshold ?? 1000);
+    this.#fd = null;
+
+    this.#replay();
+    this.#compact();
+  }
+
+  /**
+   * Gets the path of the journal file.
+   */
+  public get filename(): string {
+    return this.#filename;
+  }
+
+  /**
+   * Gets the number of jobs waiting to be reserved.
+   */
+  public get size(): number {
+    return this.#memory.size;
+  }
+
+  /**
+   * Adds a job to the waiting list.
+   *
+   * @param job The job to be stored.
+   */
+  public enqueue(job: Job<T>): void {
+    this.#append({ op: 'enqueue', job });
+    this.#memory.enqueue(job);
+    this.#jobs.set(job.jobId, job);
+  }
+
+  /**
+   * Retrieves the next waiting job of a partition without reserving it.
+   *
+   * @param partition The key of the partition.
+   * @returns The job or null if the partition has no waiting jobs.
+   */
+  public peek(partition: string): Job<T> | null {
+    return this.#memory.peek(partition);
+  }
+
+  /**
+   * Takes the next waiting job (by priority and insertion order) and marks it as reserved.
+   *
+   * @param partitions Optional partitions to take the job from, every partition when omitted.
+   * @returns The reserved job or null if there are no waiting jobs.
+   */
+  public reserve(partitions?: Iterable<string>): Job<T> | null {
+    const job = this.#memory.reserve(partitions);
+
+    if(job) {
+      this.#append({ op: 'reserve', jobId: job.jobId });
+    }
+
+    return job;
+  }
+
+  /**
+   * Acknowledges a reserved job, removing it from the store for good.
+   *
+   * @param jobId The id of the reserved job.
+   */
+  public ack(jobId: string): void {
+    this.#append({ op: 'ack', jobId });
+    this.#memory.ack(jobId);
+    this.#jobs.delete(jobId);
+  }
+
+  /**
+   * Moves a reserved job back to the waiting list.
+   *
+   * @param job The reserved job, with its up-to-date state.
+   */
+  public nack(job: Job<T>): void {
+    this.#append({ op: 'nack', job });
+    this.#memory.nack(job);
+
+    this.#jobs.delete(job.jobId);
+    this.#jobs.set(job.jobId, job);
+  }
+
+  /**
+   * Removes a waiting job from the store.
+   *
+   * @param jobId The id of the waiting job.
+   * @returns The removed job, if it was waiting.
+   */
+  public remove(jobId: string): Job<T> | undefined {
+    const job = this.#memory.remove(jobId);
+
+    if(job) {
+      this.#append({ op: 'remove', jobId });
+      this.#jobs.delete(jobId);
+    }
+
+    return job;
+  }
+
+  /**
+   * Lists the jobs in the store.
+   *
+   * @param state Optional state used to filter the jobs.
+   * @returns The waiting jobs in dispatch order followed by the reserved ones.
+   */
+  public list(state?: QueueStoreJobState): Job<T>[] {
+    return this.#memory.list(state);
+  }
+
+  /**
+   * Closes the journal file and releases the jobs kept in memory.
+   * The journal is left on disk to be replayed by the next store.
+   */
+  public dispose(): void {
+    if(this.#fd !== null) {
+      fs.closeSync(this.#fd);
+      this.#fd = null;
+    }
+
+    this.#memory.dispose();
+    this.#jobs.clear();
+  }
+
+  #append(record: JournalRecord<T>): void {
+    if(this.#fd === null) {
+      throw new Exception('FileQueueStore has been disposed');
+    }
+
+    // The jobs in memory do not include this record yet, so the journal is compacted first
+    if(this.#obsolete >= this.#compactThreshold && this.#obsolete > this.#records - this.#obsolete) {
+      this.#compact();
+    }
+
+    fs.appendFileSync(this.#fd, JSON.stringify(record) + '\n');
+
+    this.#records++;
+    this.#obsolete += obsoletedBy(record);
+  }
+
+  #replay(): void {
+    if(!fs.existsSync(this.#filename)) return;
+
+    const jobs = this.#jobs;
+    const lines = fs.readFileSync(this.#filename, 'utf8').split('\n');
+
+    for(const line of lines) {
+      if(line.trim().length === 0) continue;
+
+      let record: JournalRecord<T>;
+
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A partial line left by a crash while appending
+        continue;
+      }
+
+      // A requeued job goes behind the others, a reserved one keeps its position
+      switch(record.op) {
+        case 'nack':
+          jobs.delete(record.job.jobId);
+          jobs.set(record.job.jobId, record.job);
+          break;
+        case 'enqueue':
+          jobs.set(record.job.jobId, record.job);
+          break;
+        case 'ack':
+        case 'remove':
+          jobs.delete(record.jobId);
+          break;
+        case 'reserve':
+          break;
+      }
+    }
+
+    for(const job of jobs.values()) {
+      this.#memory.enqueue(job);
+    }
+  }
+
+  /**
+   * Rewrites the journal with an `enqueue` record for every job in the store, in queue order.
+   */
+  #compact(): void {
+    const temporary = `${this.#filename}.tmp`;
+    const jobs = [...this.#jobs.values()];
+    const content = jobs.map(job => JSON.stringify({ op: 'enqueue', job }) + '\n').join('');
+
+    fs.mkdirSync(path.dirname(this.#filename), { recursive: true });
+    fs.writeFileSync(temporary, content);
+
+    if(this.#fd !== null) {
+      fs.closeSync(this.#fd);
+      this.#fd = null;
+    }
+
+    fs.renameSync(temporary, this.#filename);
+
+    this.#fd = fs.openSync(this.#filename, 'a');
+    this.#records = jobs.length;
+    this.#obsolete = 0;
+  }
+}
+
+
+/**
+ * Represents a job that failed all of its attempts.
+ */
+export interface DeadLetter<T, E = unknown> {
+  readonly job: Job<T>;
+  readonly error: E;
+  readonly attemptsMade: number;
+  readonly queuedAt: number;
+  readonly failedAt: number;
+}
+
+/**
+ * Represents the storage used by an event loop to keep the jobs that failed for good.
+ */
+export interface DeadLetterStore<T, E = unknown> {
+
+  /**
+   * Gets the number of dead letters in the store.
+   */
+  readonly size: number;
+
+  /**
+   * Adds a dead letter to the store.
+   *
+   * @param entry The failed job and its error.
+   */
+  add(entry: DeadLetter<T, E>): void;
+
+  /**
+   * Retrieves the dead letter of a job.
+   *
+   * @param jobId The id of the failed job.
+   */
+  get(jobId: string): DeadLetter<T, E> | undefined;
+
+  /**
+   * Lists the dead letters in the order they failed.
+   */
+  list(): DeadLetter<T, E>[];
+
+  /**
+   * Removes the dead letter of a job from the store.
+   *
+   * @param jobId The id of the failed job.
+   * @returns The removed dead letter, if any.
+   */
+  remove(jobId: string): DeadLetter<T, E> | undefined;
+
+  /**
+   * Removes every dead letter from the store.
+   */
+  clear(): void;
+}
+
+
+/**
+ * A dead-letter store that keeps every failed job in memory.
+ */
+export class MemoryDeadLetterStore<T, E = unknown> implements DeadLetterStore<T, E> {
+  readonly #entries: Map<string, DeadLetter<T, E>> = new Map();
+
+  /**
+   * Gets the number of dead letters in the store.
+   */
+  public get size(): number {
+    return this.#entries.size;
+  }
+
+  /**
+   * Adds a dead letter to the store.
+   *
+   * @param entry The failed job and its error.
+   */
+  public add(entry: DeadLetter<T, E>): void {
+    this.#entries.delete(entry.job.jobId);
+    this.#entries.set(entry.job.jobId, entry);
+  }
+
+  /**
+   * Retrieves the dead letter of a job.
+   *
+   * @param jobId The id of the failed job.
+   */
+  public get(jobId: string): DeadLetter<T, E> | undefined {
+    return this.#entries.get(jobId);
+  }
+
+  /**
+   * Lists the dead letters in the order they failed.
+   */
+  public list(): DeadLetter<T, E>[] {
+    return [...this.#entries.values()];
+  }
+
+  /**
+   * Removes the dead letter of a job from the store.
+   *
+   * @param jobId The id of the failed job.
+   * @returns The removed dead letter, if any.
+   */
+  public remove(jobId: string): DeadLetter<T, E> | undefined {
+    const entry = this.#entries.get(jobId);
+    this.#entries.delete(jobId);
+
+    return entry;
+  }
+
+  /**
+   * Removes every dead letter from the store.
+   */
+  public clear(): void {
+    this.#entries.clear();
+  }
+}
@@ -0,0 +1,165 @@
+import type { LockHandle, LockOptions } from './lock';
+import { type Waiter, createHandle, enqueue } from './_internals/wait-queue';
+
+
+export type SemaphoreAcquireOptions = LockOptions & {
+
+  /**
+   * The number of permits to take (default is 1).
+   */
+  weight?: number;
+}
+
+type WeightedWaiter = Waiter & {
+  readonly weight: number;
+}
+
+
+function assertPermits(permits: number): void {
+  if(!Number.isInteger(permits) || permits < 0) {
+    throw new RangeError('Semaphore permits must be a non-negative integer');
+  }
+}
+
+
+/**
+ * A counting semaphore whose permits can be shared across unrelated call sites.
+ *
+ * Waiters are granted in the order they asked, so a waiter needing many permits is not
+ * overtaken by smaller ones queued behind it.
+ */
+export class Semaphore {
+  readonly #waiters: WeightedWaiter[] = [];
+  #permits: number;
+  #used: number = 0;
+
+  /**
+   * Constructs a new Semaphore instance.
+   *
+   * @param permits The number of permits.
+   * @throws {RangeError} If the number of permits is not a non-negative integer.
+   */
+  public constructor(permits: number) {
+    assertPermits(permits);
+    this.#permits = permits;
+  }
+
+  /**
+   * Gets the number of permits.
+   */
+  public get permits(): number {
+    return this.#permits;
+  }
+
+  /**
+   * Gets the number of permits that are not held.
+   */
+  public get available(): number {
+    return Math.max(0, this.#permits - this.#used);
+  }
+
+  /**
+   * Gets the number of callers waiting for permits.
+   */
+  public get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Waits for permits.
+   *
+   * @param options The number of permits and options to give up waiting.
+   * @returns A promise that resolves with the handle releasing the permits.
+   */
+  public acquire(options?: SemaphoreAcquireOptions): Promise<LockHandle> {
+    const weight = options?.weight ?? 1;
+
+    try {
+      const handle = this.tryAcquire(weight);
+      if(handle) return Promise.resolve(handle);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    const promise = enqueue(this.#waiters, { weight }, options);
+
+    // A waiter giving up may let the smaller ones queued behind it through
+    promise.catch(() => this.#dispatch());
+
+    return promise;
+  }
+
+  /**
+   * Takes permits if they are available and nobody is waiting for permits.
+   *
+   * @param weight The number of permits to take (default is 1).
+   * @returns The handle releasing the permits, or null if they are not available.
+   * @throws {RangeError} If the weight is not a positive integer or exceeds the number of permits.
+   */
+  public tryAcquire(weight: number = 1): LockHandle | null {
+    if(!Number.isInteger(weight) || weight < 1) {
+      throw new RangeError('Semaphore weight must be a positive integer');
+    }
+
+    if(weight > this.#permits) {
+      throw new RangeError(`Semaphore weight ${weight} exceeds its ${this.#permits} permit(s)`);
+    }
+
+    if(this.#waiters.length > 0 || this.#used + weight > this.#permits) return null;
+
+    this.#used += weight;
+    return this.#handle(weight);
+  }
+
+  /**
+   * Runs a function while holding permits, releasing them once the function settles.
+   *
+   * @param callback The function to run.
+   * @param options The number of permits and options to give up waiting.
+   * @returns A promise that resolves with the result of the function.
+   */
+  public async run<R>(callback: () => R | Promise<R>, options?: SemaphoreAcquireOptions): Promise<R> {
+    const handle = await this.acquire(options);
+
+    try {
+      return await callback();
+    } finally {
+      handle.release();
+    }
+  }
+
+  /**
+   * Changes the number of permits.
+   *
+   * Growing grants the waiters that now fit. Shrinking below the permits in use takes effect
+   * as they are released; held permits are never revoked, and a waiter needing more
+   * permits than are left keeps the queue waiting until the semaphore grows again.
+   *
+   * @param permits The new number of permits.
+   * @throws {RangeError} If the number of permits is not a non-negative integer.
+   */
+  public resize(permits: number): void {
+    assertPermits(permits);
+
+    this.#permits = permits;
+    this.#dispatch();
+  }
+
+  #handle(weight: number): LockHandle {
+    return createHandle(() => {
+      this.#used -= weight;
+      this.#dispatch();
+    });
+  }
+
+  #dispatch(): void {
+    while(this.#waiters.length > 0 && this.#used + this.#waiters[0].weight <= this.#permits) {
+      const waiter = this.#waiters.shift()!;
+
+      this.#used += waiter.weight;
+      void waiter.deferred.resolve(this.#handle(waiter.weight));
+    }
+  }
+}
+
+export default Semaphore;
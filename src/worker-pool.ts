@@ -0,0 +1,305 @@
+import * as path from 'node:path';
+import { Worker } from 'node:worker_threads';
+
+import Deferred from './deferred';
+import { Exception, CanceledError } from './_internals/errors';
+import IDisposable from './_internals/disposable';
+
+
+/**
+ * The script run by every worker. It loads the processor module and answers job messages.
+ *
+ * The module must export the processor as `module.exports`, `default` or `process`, and is
+ * called like a main-thread handler, with the job, an abort signal and a `{ updateProgress, log, heartbeat }`
+ * helpers object. The signal is aborted when the task is, and the worker exits once its listeners ran.
+ */
+const WORKER_SCRIPT = `
+const { parentPort, workerData } = require('node:worker_threads');
+
+const mod = require(workerData.filename);
+const processor = typeof mod === 'function' ? mod : (mod.default || mod.process);
+
+if(typeof processor !== 'function') {
+  throw new TypeError('Module ' + workerData.filename + ' does not export a processing function');
+}
+
+const post = message => {
+  try {
+    parentPort.postMessage(message);
+  } catch (err) {
+    parentPort.postMessage({ id: message.id, type: 'error', error: new Error(String(err && err.message || err)) });
+  }
+};
+
+const controllers = new Map();
+
+parentPort.on('message', message => {
+  const { id } = message;
+
+  if(message.type === 'abort') {
+    const reason = new Error(message.reason.message);
+    reason.name = message.reason.name;
+
+    controllers.get(id)?.abort(reason);
+    process.exit(0);
+  }
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  const helpers = {
+    updateProgress: value => post({ id, type: 'progress', value }),
+    log: message => post({ id, type: 'log', message: String(message) }),
+    heartbeat: () => post({ id, type: 'heartbeat' }),
+  };
+
+  Promise.resolve()
+    .then(() => processor(message.job, controller.signal, helpers))
+    .then(result => post({ id, type: 'result', result }))
+    .catch(error => post({ id, type: 'error', error: error instanceof Error ? error : new Error(String(error)) }))
+    .finally(() => controllers.delete(id));
+});
+`;
+
+
+/**
+ * The time (in milliseconds) an aborted worker has to exit by itself before it is terminated.
+ */
+const ABORT_GRACE_PERIOD = 1000;
+
+
+export type WorkerPoolOptions = {
+
+  /**
+   * The maximum number of workers in the pool (default is 1).
+   */
+  size?: number;
+}
+
+export type WorkerRunOptions = {
+
+  /**
+   * Aborting the signal aborts the signal of the processing function, then stops the worker running the task.
+   */
+  signal?: AbortSignal;
+  onProgress?: (value: any) => void;
+  onLog?: (message: string) => void;
+  onHeartbeat?: () => void;
+}
+
+type WorkerMessage =
+  | { id: number, type: 'progress', value: any }
+  | { id: number, type: 'log', message: string }
+  | { id: number, type: 'heartbeat' }
+  | { id: number, type: 'result', result: any }
+  | { id: number, type: 'error', error: unknown };
+
+type Task = {
+  readonly id: number;
+  readonly payload: unknown;
+  readonly options: WorkerRunOptions;
+  readonly deferred: Deferred<any>;
+}
+
+type PoolWorker = {
+  readonly worker: Worker;
+  task: Task | null;
+}
+
+
+/**
+ * A pool of `worker_threads` workers running the processing function of a module.
+ *
+ * Payloads and results are structured-cloned between threads. Workers are started when
+ * there are tasks for them, and a worker that crashes, or that is terminated because
+ * its task was aborted, is replaced the same way.
+ */
+export class WorkerPool implements IDisposable {
+  readonly #filename: string;
+  readonly #size: number;
+  readonly #workers: PoolWorker[] = [];
+  readonly #pending: Task[] = [];
+  #sequence: number = 0;
+  #disposed: boolean = false;
+
+  /**
+   * Creates a new pool of workers.
+   *
+   * @param filename The path of the JavaScript module exporting the processing function.
+   * @param options Additional options for the pool.
+   */
+  public constructor(filename: string, options?: WorkerPoolOptions) {
+    this.#filename = path.resolve(filename);
+    this.#size = Math.max(1, options?.size ?? 1);
+  }
+
+  /**
+   * Gets the maximum number of workers in the pool.
+   */
+  public get size(): number {
+    return this.#size;
+  }
+
+  /**
+   * Runs the processing function in a worker.
+   *
+   * @param payload The value handed to the processing function.
+   * @param options Additional options for the task.
+   * @returns A promise that resolves with the result of the processing function.
+   * @throws {Exception} If the pool has been disposed.
+   */
+  public run<R = any>(payload: unknown, options?: WorkerRunOptions): Promise<R> {
+    if(this.#disposed) {
+      return Promise.reject(new Exception('WorkerPool has been disposed'));
+    }
+
+    if(options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+
+    const task: Task = {
+      id: this.#sequence++,
+      payload,
+      options: Object.assign({}, options),
+      deferred: new Deferred<R>(),
+    };
+
+    task.options.signal?.addEventListener('abort', () => {
+      this.#abort(task, task.options.signal!.reason);
+    }, { once: true });
+
+    this.#pending.push(task);
+    this.#next();
+
+    return task.deferred.promise;
+  }
+
+  /**
+   * Terminates every worker and rejects the pending tasks.
+   */
+  public dispose(): void {
+    if(this.#disposed) return;
+    this.#disposed = true;
+
+    for(const entry of this.#workers.splice(0)) {
+      entry.task?.deferred.reject(new CanceledError('WorkerPool has been disposed'));
+      void entry.worker.terminate();
+    }
+
+    for(const task of this.#pending.splice(0)) {
+      task.deferred.reject(new CanceledError('WorkerPool has been disposed'));
+    }
+  }
+
+  #spawn(): void {
+    const worker = new Worker(WORKER_SCRIPT, {
+      eval: true,
+      workerData: { filename: this.#filename },
+    });
+
+    const entry: PoolWorker = { worker, task: null };
+
+    worker.on('message', (message: WorkerMessage) => {
+      const task = entry.task;
+      if(!task || task.id !== message.id) return;
+
+      switch(message.type) {
+        case 'progress':
+          task.options.onProgress?.(message.value);
+          break;
+        case 'log':
+          task.options.onLog?.(message.message);
+          break;
+        case 'heartbeat':
+          task.options.onHeartbeat?.();
+          break;
+        case 'result':
+          entry.task = null;
+          task.deferred.resolve(message.result);
+          this.#next();
+          break;
+        case 'error':
+          entry.task = null;
+          task.deferred.reject(message.error);
+          this.#next();
+          break;
+      }
+    });
+
+    // A crashed worker takes its task down with it and is replaced
+    worker.on('error', err => this.#replace(entry, err));
+    worker.on('exit', code => this.#replace(entry, new Exception(`Worker stopped with exit code ${code}`)));
+
+    worker.unref();
+    this.#workers.push(entry);
+  }
+
+  #replace(entry: PoolWorker, reason: unknown, gracePeriod: number = 0): void {
+    const index = this.#workers.indexOf(entry);
+    if(index < 0) return;
+
+    this.#workers.splice(index, 1);
+    entry.task?.deferred.reject(reason);
+    entry.task = null;
+
+    if(gracePeriod > 0) {
+      const timeout = setTimeout(() => void entry.worker.terminate(), gracePeriod);
+
+      timeout.unref();
+      entry.worker.once('exit', () => clearTimeout(timeout));
+    } else {
+      void entry.worker.terminate();
+    }
+
+    if(this.#disposed) return;
+
+    // The replacement is spawned when there is work for it, so a module failing to load cannot respawn in a loop
+    this.#next();
+  }
+
+  #abort(task: Task, reason: unknown): void {
+    const pending = this.#pending.indexOf(task);
+
+    if(pending > -1) {
+      this.#pending.splice(pending, 1);
+      task.deferred.reject(reason);
+
+      return;
+    }
+
+    const entry = this.#workers.find(item => item.task === task);
+    if(!entry) return;
+
+    const error = reason instanceof Error ? reason : new Error(String(reason));
+
+    // The worker exits once the listeners of its signal ran, and a worker busy with synchronous code is terminated
+    entry.worker.postMessage({ id: task.id, type: 'abort', reason: { name: error.name, message: error.message } });
+    this.#replace(entry, reason, ABORT_GRACE_PERIOD);
+  }
+
+  #next(): void {
+    while(this.#pending.length > 0 && this.#workers.length < this.#size) {
+      this.#spawn();
+    }
+
+    for(const entry of this.#workers) {
+      if(entry.task || this.#pending.length === 0) continue;
+
+      const task = this.#pending.shift()!;
+      entry.task = task;
+
+      // Keep the process alive while a task is running
+      entry.worker.ref();
+      task.deferred.promise.finally(() => entry.worker.unref()).catch(() => void 0);
+
+      try {
+        entry.worker.postMessage({ id: task.id, type: 'run', job: task.payload });
+      } catch (err) {
+        entry.task = null;
+        task.deferred.reject(err);
+      }
+    }
+  }
+}
+
+export default WorkerPool;